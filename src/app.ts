@@ -36,8 +36,8 @@ app.use(helmet({
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     credentials: true, // This is crucial for cookies!
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
-    exposedHeaders: ['Set-Cookie']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key'],
+    exposedHeaders: ['Set-Cookie', 'Idempotent-Replayed', 'Retry-After']
   }));
   app.use(morgan(process.env.NODE_ENV === 'production' ? 'combined' : 'dev'));
 app.use(cookieParser());
@@ -83,6 +83,7 @@ app.use('*', (req, res) => {
         health: 'GET /health',
         api: {
           auth: 'POST /api/auth/business/signin, /api/auth/business/signup',
+          customerAuth: 'POST /api/auth/customer/request-otp, /api/auth/customer/verify-otp',
           businesses: 'GET /api/businesses/profile, /api/businesses/analytics',
           customers: 'GET /api/customers, GET /api/customers/:id',
           stamps: 'POST /api/stamps/generate-qr, GET /api/stamps/qr-status/:qrId'
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services/apiKeyService';
+import { getAuditContext } from '../utils/requestContext';
+import { AuthRequest } from '../types/auth';
+
+const API_KEY_ERROR_STATUS: Record<string, number> = {
+  API_KEY_NOT_FOUND: 404
+};
+
+export class ApiKeyController {
+  /**
+   * List API Keys - All keys of the business (labels and prefixes only)
+   * GET /api/businesses/api-keys
+   */
+  static async listKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const apiKeys = await ApiKeyService.listKeys(businessId);
+
+      if (!apiKeys) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to list API keys'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        apiKeys
+      });
+    } catch (error) {
+      console.error('❌ List API keys error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list API keys'
+      });
+    }
+  }
+
+  /**
+   * Create API Key - Returns the key once; only its hash is kept
+   * POST /api/businesses/api-keys
+   */
+  static async createKey(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { name, scopes, expiresInDays } = req.body;
+
+      const result = await ApiKeyService.createKey(businessId, { name, scopes, expiresInDays }, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(API_KEY_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'API key created. Copy it now - it will not be shown again.',
+        apiKey: result.data
+      });
+    } catch (error) {
+      console.error('❌ Create API key error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create API key'
+      });
+    }
+  }
+
+  /**
+   * Revoke API Key - The key stops working immediately
+   * DELETE /api/businesses/api-keys/:keyId
+   */
+  static async revokeKey(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await ApiKeyService.revokeKey(businessId, req.params.keyId, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(API_KEY_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'API key revoked'
+      });
+    } catch (error) {
+      console.error('❌ Revoke API key error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke API key'
+      });
+    }
+  }
+}
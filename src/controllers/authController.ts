@@ -1,9 +1,18 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/authService';
 import { BusinessService } from '../services/businessService';
+import { SessionService } from '../services/sessionService';
+import { StaffService } from '../services/staffService';
+import { AuditLogService } from '../services/auditLogService';
 import { CookieHelper } from '../utils/cookieHelper';
+import { getAuditContext, getClientContext } from '../utils/requestContext';
 import { AuthRequest } from '../types/auth';
 
+const SIGNIN_ERROR_STATUS: Record<string, number> = {
+  ACCOUNT_LOCKED: 423,
+  TOO_MANY_ATTEMPTS: 429
+};
+
 export class AuthController {
   /**
    * Business Signup - Create new business account
@@ -14,7 +23,7 @@ export class AuthController {
       const signupData = req.body;
       
       // Create business account using service
-      const result = await AuthService.createBusinessAccount(signupData);
+      const result = await AuthService.createBusinessAccount(signupData, getClientContext(req));
       
       if (!result.success) {
         res.status(400).json({
@@ -25,7 +34,7 @@ export class AuthController {
       }
 
       // Type guard: Ensure data exists when success is true
-      if (!result.data || !result.data.token || !result.data.business) {
+      if (!result.data || !result.data.token || !result.data.refreshToken || !result.data.expiresAt || !result.data.business) {
         res.status(500).json({
           success: false,
           error: 'Invalid response from authentication service'
@@ -33,8 +42,8 @@ export class AuthController {
         return;
       }
 
-      // Set secure authentication cookie
-      CookieHelper.setAuthCookie(res, result.data.token);
+      // Set secure access and refresh token cookies
+      CookieHelper.setAuthCookies(res, result.data.token, result.data.refreshToken, result.data.expiresAt);
 
       res.status(201).json({
         success: true,
@@ -58,19 +67,36 @@ export class AuthController {
     try {
       const { email, password, rememberMe = false } = req.body;
       
-      // Authenticate business using service
-      const result = await AuthService.authenticateBusiness(email, password);
+      // Authenticate business using service (rememberMe extends the session lifetime)
+      const result = await AuthService.authenticateBusiness(email, password, getClientContext(req), rememberMe);
       
       if (!result.success) {
-        res.status(401).json({
+        if (result.retryAfter) {
+          res.set('Retry-After', String(result.retryAfter));
+        }
+
+        res.status(SIGNIN_ERROR_STATUS[result.code || ''] || 401).json({
           success: false,
-          error: result.error
+          error: result.error,
+          code: result.code,
+          retryAfter: result.retryAfter
+        });
+        return;
+      }
+
+      // Password was right but a second factor is needed - no session yet
+      if (result.data?.twoFactorRequired) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication required',
+          twoFactorRequired: true,
+          twoFactorToken: result.data.twoFactorToken
         });
         return;
       }
 
       // Type guard: Ensure data exists when success is true
-      if (!result.data || !result.data.token || !result.data.business) {
+      if (!result.data || !result.data.token || !result.data.refreshToken || !result.data.expiresAt || !result.data.business) {
         res.status(500).json({
           success: false,
           error: 'Invalid response from authentication service'
@@ -78,8 +104,8 @@ export class AuthController {
         return;
       }
 
-      // Set secure cookie with appropriate expiration
-      CookieHelper.setAuthCookie(res, result.data.token, rememberMe);
+      // Set secure access and refresh token cookies
+      CookieHelper.setAuthCookies(res, result.data.token, result.data.refreshToken, result.data.expiresAt);
 
       res.json({
         success: true,
@@ -95,20 +121,137 @@ export class AuthController {
     }
   }
 
+  /**
+   * Staff Signin - Authenticate a staff member of a business
+   * POST /api/auth/staff/signin
+   */
+  static async staffSignin(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, password, rememberMe = false } = req.body;
+
+      const result = await StaffService.authenticateStaff(email, password, getClientContext(req), rememberMe);
+
+      if (!result.success) {
+        if (result.retryAfter) {
+          res.set('Retry-After', String(result.retryAfter));
+        }
+
+        res.status(SIGNIN_ERROR_STATUS[result.code || ''] || 401).json({
+          success: false,
+          error: result.error,
+          code: result.code,
+          retryAfter: result.retryAfter
+        });
+        return;
+      }
+
+      // Type guard: Ensure data exists when success is true
+      if (!result.data || !result.data.token || !result.data.refreshToken || !result.data.expiresAt || !result.data.business) {
+        res.status(500).json({
+          success: false,
+          error: 'Invalid response from authentication service'
+        });
+        return;
+      }
+
+      CookieHelper.setAuthCookies(res, result.data.token, result.data.refreshToken, result.data.expiresAt);
+
+      res.json({
+        success: true,
+        message: 'Signed in successfully',
+        business: result.data.business
+      });
+    } catch (error) {
+      console.error('❌ Staff signin error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Sign in failed'
+      });
+    }
+  }
+
+  /**
+   * Accept Staff Invite - Set a password and sign in
+   * POST /api/auth/staff/accept-invite
+   */
+  static async acceptStaffInvite(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, password } = req.body;
+
+      const result = await StaffService.acceptInvite(token, password, getClientContext(req));
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      // Type guard: Ensure data exists when success is true
+      if (!result.data || !result.data.token || !result.data.refreshToken || !result.data.expiresAt || !result.data.business) {
+        res.status(500).json({
+          success: false,
+          error: 'Invalid response from authentication service'
+        });
+        return;
+      }
+
+      CookieHelper.setAuthCookies(res, result.data.token, result.data.refreshToken, result.data.expiresAt);
+
+      res.json({
+        success: true,
+        message: 'Invite accepted',
+        business: result.data.business
+      });
+    } catch (error) {
+      console.error('❌ Accept staff invite error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to accept invite'
+      });
+    }
+  }
+
   /**
    * Business Signout - Clear authentication
    * POST /api/auth/business/signout
+   * POST /api/auth/refresh/signout (receives the refresh cookie, works with an expired access token)
    */
   static async businessSignout(req: Request, res: Response): Promise<void> {
     try {
-      const business = (req as AuthRequest).business;
+      const { business, sessionId } = req as AuthRequest;
+      const refreshToken = req.cookies?.refresh_token || req.body?.refreshToken;
 
-      // Clear authentication cookie
-      CookieHelper.clearAuthCookie(res);
+      // End the server-side session so a copied token stops working
+      if (sessionId) {
+        await SessionService.revokeSession(sessionId);
+      }
+
+      // The refresh token still names the session when the access token has expired
+      const refreshSession = refreshToken ? await SessionService.revokeByRefreshToken(refreshToken) : null;
+
+      // Clear authentication cookies
+      CookieHelper.clearAuthCookies(res);
 
       // Log signout event
       if (business) {
         console.log(`🚪 Business signout: ${business.name} (${business.email})`);
+        await AuditLogService.record({
+          businessId: business.id,
+          action: 'auth.signout',
+          audit: getAuditContext(req),
+          targetType: 'session',
+          targetId: sessionId
+        });
+      } else if (refreshSession) {
+        await AuditLogService.record({
+          businessId: refreshSession.businessId,
+          action: 'auth.signout',
+          audit: getAuditContext(req),
+          targetType: 'session',
+          targetId: refreshSession.id
+        });
       }
 
       res.json({
@@ -153,7 +296,9 @@ export class AuthController {
 
       res.json({ 
         success: true,
-        business
+        business,
+        role: (req as AuthRequest).role,
+        staff: (req as AuthRequest).staff || null
       });
     } catch (error) {
       console.error('❌ Get business profile error:', error);
@@ -165,34 +310,38 @@ export class AuthController {
   }
 
   /**
-   * Refresh Token - Generate new authentication token
+   * Refresh Token - Rotate the refresh token and issue a new access token
    * POST /api/auth/refresh
    */
   static async refreshToken(req: Request, res: Response): Promise<void> {
     try {
-      const businessId = (req as AuthRequest).business?.id;
+      // Cookie for browsers; body for clients that manage tokens themselves
+      const refreshToken = req.cookies?.refresh_token || req.body?.refreshToken;
 
-      if (!businessId) {
+      if (!refreshToken) {
         res.status(401).json({
           success: false,
-          error: 'No valid token to refresh'
+          error: 'No refresh token provided',
+          code: 'NO_REFRESH_TOKEN'
         });
         return;
       }
 
       // Refresh token using service
-      const result = await AuthService.refreshBusinessToken(businessId);
+      const result = await AuthService.refreshBusinessToken(refreshToken, getClientContext(req));
 
       if (!result.success) {
+        CookieHelper.clearAuthCookies(res);
         res.status(401).json({
           success: false,
-          error: result.error
+          error: result.error,
+          code: result.code
         });
         return;
       }
 
-      // Type guard: Ensure data and token exist
-      if (!result.data || !result.data.token) {
+      // Type guard: Ensure data and tokens exist
+      if (!result.data || !result.data.token || !result.data.refreshToken || !result.data.expiresAt) {
         res.status(500).json({
           success: false,
           error: 'Invalid response from authentication service'
@@ -200,8 +349,8 @@ export class AuthController {
         return;
       }
 
-      // Set new authentication cookie
-      CookieHelper.setAuthCookie(res, result.data.token);
+      // Set new authentication cookies
+      CookieHelper.setAuthCookies(res, result.data.token, result.data.refreshToken, result.data.expiresAt);
 
       res.json({
         success: true,
@@ -241,7 +390,9 @@ export class AuthController {
           name: business.name,
           email: business.email,
           isVerified: business.isVerified
-        }
+        },
+        role: (req as AuthRequest).role,
+        staff: (req as AuthRequest).staff || null
       });
     } catch (error) {
       console.error('❌ Check auth error:', error);
@@ -252,4 +403,317 @@ export class AuthController {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Forgot Password - Email a password reset link
+   * POST /api/auth/business/forgot-password
+   */
+  static async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      const result = await AuthService.requestPasswordReset(email, getClientContext(req));
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      // Same response whether or not the account exists
+      res.json({
+        success: true,
+        message: 'If an account exists for that email, a reset link has been sent'
+      });
+    } catch (error) {
+      console.error('❌ Forgot password error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to request password reset'
+      });
+    }
+  }
+
+  /**
+   * Reset Password - Set a new password with a reset token
+   * POST /api/auth/business/reset-password
+   */
+  static async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, newPassword } = req.body;
+
+      const result = await AuthService.resetPassword(token, newPassword, getClientContext(req));
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      // The current browser's session was invalidated along with every other one
+      CookieHelper.clearAuthCookies(res);
+
+      res.json({
+        success: true,
+        message: 'Password has been reset. Please sign in with your new password.'
+      });
+    } catch (error) {
+      console.error('❌ Reset password error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reset password'
+      });
+    }
+  }
+
+  /**
+   * Send Verification - Email a new verification link to the signed-in business
+   * POST /api/auth/business/send-verification
+   */
+  static async sendVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await AuthService.sendVerificationEmail(businessId);
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Verification email sent'
+      });
+    } catch (error) {
+      console.error('❌ Send verification error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send verification email'
+      });
+    }
+  }
+
+  /**
+   * Verify Email - Confirm the business email address
+   * POST /api/auth/business/verify-email
+   */
+  static async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      const result = await AuthService.verifyEmail(token, getClientContext(req));
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Email address verified'
+      });
+    } catch (error) {
+      console.error('❌ Verify email error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify email'
+      });
+    }
+  }
+
+  /**
+   * Change Password - Set a new password and sign out every other device
+   * POST /api/auth/business/change-password
+   */
+  static async changePassword(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+      const { currentPassword, newPassword } = req.body;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await AuthService.changePassword(businessId, currentPassword, newPassword, getClientContext(req));
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      // Type guard: Ensure data and tokens exist
+      if (!result.data || !result.data.token || !result.data.refreshToken || !result.data.expiresAt) {
+        res.status(500).json({
+          success: false,
+          error: 'Invalid response from authentication service'
+        });
+        return;
+      }
+
+      // Old session was revoked along with the rest - switch to the new one
+      CookieHelper.setAuthCookies(res, result.data.token, result.data.refreshToken, result.data.expiresAt);
+
+      res.json({
+        success: true,
+        message: 'Password changed. All other devices have been signed out.'
+      });
+    } catch (error) {
+      console.error('❌ Change password error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to change password'
+      });
+    }
+  }
+
+  /**
+   * List Sessions - Active sign-ins for the business
+   * GET /api/auth/sessions
+   */
+  static async listSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const { business, sessionId } = req as AuthRequest;
+
+      if (!business) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const sessions = await SessionService.listBusinessSessions(business.id, sessionId);
+
+      res.json({
+        success: true,
+        sessions
+      });
+    } catch (error) {
+      console.error('❌ List sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list sessions'
+      });
+    }
+  }
+
+  /**
+   * Revoke Session - Sign out a single device
+   * DELETE /api/auth/sessions/:sessionId
+   */
+  static async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { business, sessionId: currentSessionId } = req as AuthRequest;
+      const { sessionId } = req.params;
+
+      if (!business) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const revoked = await SessionService.revokeSession(sessionId, business.id);
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found'
+        });
+        return;
+      }
+
+      await AuditLogService.record({
+        businessId: business.id,
+        action: 'auth.session_revoked',
+        audit: getAuditContext(req),
+        targetType: 'session',
+        targetId: sessionId
+      });
+
+      if (sessionId === currentSessionId) {
+        CookieHelper.clearAuthCookies(res);
+      }
+
+      res.json({
+        success: true,
+        message: 'Session revoked'
+      });
+    } catch (error) {
+      console.error('❌ Revoke session error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke session'
+      });
+    }
+  }
+
+  /**
+   * Revoke All Sessions - Sign out all devices, including this one
+   * DELETE /api/auth/sessions
+   */
+  static async revokeAllSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const business = (req as AuthRequest).business;
+
+      if (!business) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const revokedCount = await SessionService.revokeAllBusinessSessions(business.id);
+
+      CookieHelper.clearAuthCookies(res);
+
+      console.log(`🚪 All sessions revoked: ${business.name} (${revokedCount})`);
+      await AuditLogService.record({
+        businessId: business.id,
+        action: 'auth.sessions_revoked_all',
+        audit: getAuditContext(req),
+        metadata: { sessionsRevoked: revokedCount }
+      });
+
+      res.json({
+        success: true,
+        message: 'Signed out of all devices',
+        revokedCount
+      });
+    } catch (error) {
+      console.error('❌ Revoke all sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke sessions'
+      });
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import { BusinessService } from '../services/businessService';
+import { AuditLogService } from '../services/auditLogService';
+import { getAuditContext } from '../utils/requestContext';
+import { AuthRequest } from '../types/auth';
+
+export class BusinessController {
+  /**
+   * Get Profile - Business profile, settings and stats
+   * GET /api/businesses/profile
+   */
+  static async getProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const business = await BusinessService.getBusinessProfile(businessId);
+
+      if (!business) {
+        res.status(404).json({
+          success: false,
+          error: 'Business profile not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        business
+      });
+    } catch (error) {
+      console.error('❌ Get business profile error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get business profile'
+      });
+    }
+  }
+
+  /**
+   * Update Profile - Change profile, stamp/reward rules and branding
+   * PUT /api/businesses/profile
+   */
+  static async updateProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const business = await BusinessService.updateBusinessProfile(businessId, req.body, getAuditContext(req));
+
+      if (!business) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to update business profile'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Business profile updated',
+        business
+      });
+    } catch (error) {
+      console.error('❌ Update business profile error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update business profile'
+      });
+    }
+  }
+
+  /**
+   * Get Analytics - Stamp, reward and customer activity
+   * GET /api/businesses/analytics
+   */
+  static async getAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const analytics = await BusinessService.getBusinessAnalytics(businessId);
+
+      if (!analytics) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get business analytics'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        analytics
+      });
+    } catch (error) {
+      console.error('❌ Get business analytics error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get business analytics'
+      });
+    }
+  }
+
+  /**
+   * Get Audit Log - Who did what to the account, newest first
+   * GET /api/businesses/audit-log?page=1&limit=50&action=auth.&actorStaffId=&targetId=&from=&to=
+   */
+  static async getAuditLog(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { page, limit, action, actorStaffId, targetId, from, to } = req.query as Record<string, string | undefined>;
+
+      const auditLog = await AuditLogService.list(businessId, {
+        page: parseInt(page || '1'),
+        limit: parseInt(limit || '50'),
+        action,
+        actorStaffId,
+        targetId,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined
+      });
+
+      if (!auditLog) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get audit log'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        entries: auditLog.entries,
+        pagination: auditLog.pagination
+      });
+    } catch (error) {
+      console.error('❌ Get audit log error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get audit log'
+      });
+    }
+  }
+}
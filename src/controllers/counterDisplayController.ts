@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { CounterDisplayService } from '../services/counterDisplayService';
+import { getAuditContext } from '../utils/requestContext';
+import { AuthRequest } from '../types/auth';
+
+const DISPLAY_ERROR_STATUS: Record<string, number> = {
+  DISPLAY_NOT_FOUND: 404,
+  PROGRAM_NOT_FOUND: 404
+};
+
+export class CounterDisplayController {
+  /**
+   * List Displays - Counter display devices of the business
+   * GET /api/businesses/displays
+   */
+  static async listDisplays(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const displays = await CounterDisplayService.listDisplays(businessId);
+
+      if (!displays) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to list counter displays'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        displays
+      });
+    } catch (error) {
+      console.error('❌ List counter displays error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list counter displays'
+      });
+    }
+  }
+
+  /**
+   * Create Display - Returns the device secret once
+   * POST /api/businesses/displays
+   */
+  static async createDisplay(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { name, rotationSeconds, stampsValue, programId } = req.body;
+
+      const result = await CounterDisplayService.createDisplay(
+        businessId,
+        { name, rotationSeconds, stampsValue, programId },
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(DISPLAY_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Counter display created. Enter the secret on the device now - it will not be shown again.',
+        display: result.data
+      });
+    } catch (error) {
+      console.error('❌ Create counter display error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create counter display'
+      });
+    }
+  }
+
+  /**
+   * Revoke Display - Its codes stop working immediately
+   * DELETE /api/businesses/displays/:displayId
+   */
+  static async revokeDisplay(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await CounterDisplayService.revokeDisplay(businessId, req.params.displayId, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(DISPLAY_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Counter display revoked'
+      });
+    } catch (error) {
+      console.error('❌ Revoke counter display error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke counter display'
+      });
+    }
+  }
+}
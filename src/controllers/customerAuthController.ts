@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import { CustomerAuthService } from '../services/customerAuthService';
+import { SessionService } from '../services/sessionService';
+import { CookieHelper } from '../utils/cookieHelper';
+import { getClientContext } from '../utils/requestContext';
+import { AuthRequest } from '../types/auth';
+
+const OTP_ERROR_STATUS: Record<string, number> = {
+  BUSINESS_NOT_FOUND: 404,
+  OTP_THROTTLED: 429,
+  OTP_ATTEMPTS_EXCEEDED: 429,
+  SMS_FAILED: 502,
+  OTP_NOT_REQUESTED: 400,
+  OTP_EXPIRED: 401,
+  INVALID_OTP: 401
+};
+
+export class CustomerAuthController {
+  /**
+   * Request OTP - Text a one-time sign-in code to the customer
+   * POST /api/auth/customer/request-otp
+   */
+  static async requestOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await CustomerAuthService.requestOtp(req.body);
+
+      if (!result.success) {
+        if (result.retryAfter) {
+          res.set('Retry-After', String(result.retryAfter));
+        }
+
+        res.status(OTP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code,
+          retryAfter: result.retryAfter
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Verification code sent',
+        phone: result.data?.phone,
+        expiresAt: result.data?.expiresAt
+      });
+    } catch (error) {
+      console.error('❌ Request OTP error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send verification code'
+      });
+    }
+  }
+
+  /**
+   * Verify OTP - Exchange a one-time code for a customer session
+   * POST /api/auth/customer/verify-otp
+   */
+  static async verifyOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const { phone, code } = req.body;
+
+      const result = await CustomerAuthService.verifyOtp(phone, code, getClientContext(req));
+
+      if (!result.success) {
+        res.status(OTP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      // Type guard: Ensure data exists when success is true
+      if (!result.data || !result.data.token || !result.data.customer) {
+        res.status(500).json({
+          success: false,
+          error: 'Invalid response from authentication service'
+        });
+        return;
+      }
+
+      CookieHelper.setCustomerAuthCookie(res, result.data.token);
+
+      res.json({
+        success: true,
+        message: 'Phone number verified',
+        customer: result.data.customer
+      });
+    } catch (error) {
+      console.error('❌ Verify OTP error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Verification failed'
+      });
+    }
+  }
+
+  /**
+   * Customer Signout - Clear customer authentication
+   * POST /api/auth/customer/signout
+   */
+  static async signout(req: Request, res: Response): Promise<void> {
+    try {
+      const sessionId = (req as AuthRequest).sessionId;
+
+      // End the server-side session so a copied token stops working
+      if (sessionId) {
+        await SessionService.revokeSession(sessionId);
+      }
+
+      CookieHelper.clearCustomerAuthCookie(res);
+
+      res.json({
+        success: true,
+        message: 'Signed out successfully'
+      });
+    } catch (error) {
+      console.error('❌ Customer signout error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Sign out failed'
+      });
+    }
+  }
+
+  /**
+   * Get Current Customer - Get authenticated customer profile
+   * GET /api/auth/customer/me
+   */
+  static async getMe(req: Request, res: Response): Promise<void> {
+    try {
+      const signedIn = (req as AuthRequest).customer;
+
+      if (!signedIn) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const customer = await CustomerAuthService.getCustomerProfile(signedIn.id, signedIn.businessId);
+
+      if (!customer) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer profile not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        customer
+      });
+    } catch (error) {
+      console.error('❌ Get customer profile error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get customer profile'
+      });
+    }
+  }
+}
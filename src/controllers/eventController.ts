@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services/apiKeyService';
+import { EventService } from '../services/eventService';
+import { SessionService } from '../services/sessionService';
+import { AuthRequest } from '../types/auth';
+import { BusinessEvent } from '../types/events';
+import { logError } from '../utils/errorHandler';
+import { getClientContext } from '../utils/requestContext';
+
+// Comment line sent periodically so proxies don't close an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long EventSource waits before reconnecting after a drop
+const RECONNECT_DELAY_MS = 3 * 1000;
+
+export class EventController {
+  /**
+   * Stream Events - Server-Sent Events for the business (QR claims and expiries, stamps, redemptions)
+   * GET /api/businesses/events
+   */
+  static async stream(req: Request, res: Response): Promise<void> {
+    const { business, sessionId, apiKey } = req as AuthRequest;
+    const businessId = business?.id;
+
+    if (!businessId) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const send = (event: BusinessEvent) => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // The stream outlives the request that authorized it, so sign-out, session revocation,
+    // staff deactivation (which revokes their sessions) and API key revocation are re-checked
+    const stillAuthorized = async (): Promise<boolean> => {
+      if (apiKey) {
+        return ApiKeyService.isActive(apiKey.id);
+      }
+      return !!sessionId && SessionService.touchSession(sessionId, getClientContext(req));
+    };
+
+    const unsubscribe = EventService.subscribe(businessId, send);
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!await stillAuthorized()) {
+          res.end();
+          return;
+        }
+      } catch (error) {
+        logError('Re-check event stream access', error);
+      }
+
+      res.write(': ping\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    req.on('close', close);
+    res.on('finish', close);
+  }
+}
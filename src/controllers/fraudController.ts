@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import { FraudService } from '../services/fraudService';
+import { getAuditContext } from '../utils/requestContext';
+import { AuthRequest } from '../types/auth';
+import { FlaggedActivityStatus } from '../types/stamps';
+
+const FLAG_ERROR_STATUS: Record<string, number> = {
+  FLAG_NOT_FOUND: 404,
+  FLAG_ALREADY_REVIEWED: 409,
+  CUSTOMER_NOT_FOUND: 404,
+  PROGRAM_NOT_FOUND: 404,
+  CUSTOMER_CONFLICT: 409,
+  QR_ALREADY_CLAIMED: 409
+};
+
+export class FraudController {
+  /**
+   * List Flagged Activity - Stamp attempts blocked by the fraud rules, newest first
+   * GET /api/businesses/flagged-activity?page=1&limit=50&status=pending
+   */
+  static async listFlagged(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { page, limit, status } = req.query as Record<string, string | undefined>;
+
+      const flagged = await FraudService.listFlagged(businessId, {
+        page: parseInt(page || '1'),
+        limit: parseInt(limit || '50'),
+        status: status as FlaggedActivityStatus | undefined
+      });
+
+      if (!flagged) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to list flagged activity'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        flags: flagged.flags,
+        pagination: flagged.pagination
+      });
+    } catch (error) {
+      console.error('❌ List flagged activity error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list flagged activity'
+      });
+    }
+  }
+
+  /**
+   * Review Flagged Activity - Approve (issue the stamps after all) or dismiss
+   * POST /api/businesses/flagged-activity/:flagId/review
+   */
+  static async reviewFlagged(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { decision, note } = req.body;
+
+      const result = await FraudService.review(businessId, req.params.flagId, { decision, note }, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(FLAG_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: decision === 'approve' ? 'Stamps issued' : 'Flagged activity dismissed',
+        flag: result.data
+      });
+    } catch (error) {
+      console.error('❌ Review flagged activity error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to review flagged activity'
+      });
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import { Request, Response } from 'express';
+import { ProgramService } from '../services/programService';
+import { getAuditContext } from '../utils/requestContext';
+import { isRecord, readBoolean, readNumber, readString } from '../utils/requestBody';
+import { AuthRequest } from '../types/auth';
+import { LoyaltyProgramData } from '../types/programs';
+import { StampBonusRule } from '../types/stamps';
+
+const PROGRAM_ERROR_STATUS: Record<string, number> = {
+  PROGRAM_NOT_FOUND: 404,
+  CANNOT_DEACTIVATE_DEFAULT: 400
+};
+
+/**
+ * Program fields from a request body (already validated); a stamp rule set to null falls back to the business's
+ */
+const parseProgramData = (body: unknown): Partial<LoyaltyProgramData> => {
+  if (!isRecord(body)) return {};
+
+  return {
+    name: readString(body.name) ?? undefined,
+    description: readString(body.description),
+    isActive: readBoolean(body.isActive),
+    stampsPerVisit: readNumber(body.stampsPerVisit, parseInt),
+    minSpendForStamp: readNumber(body.minSpendForStamp, parseFloat),
+    spendPerStamp: readNumber(body.spendPerStamp, parseFloat),
+    // Each rule was checked by the validation middleware
+    stampBonusRules: body.stampBonusRules === null
+      ? null
+      : Array.isArray(body.stampBonusRules) ? (body.stampBonusRules as StampBonusRule[]) : undefined,
+    maxStampsPerVisit: readNumber(body.maxStampsPerVisit, parseInt)
+  };
+};
+
+export class ProgramController {
+  /**
+   * Get Programs - The business's stamp cards, including deactivated ones
+   * GET /api/programs
+   */
+  static async getPrograms(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const programs = await ProgramService.listPrograms(businessId, true);
+
+      if (!programs) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get loyalty programs'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        programs
+      });
+    } catch (error) {
+      console.error('❌ Get loyalty programs error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get loyalty programs'
+      });
+    }
+  }
+
+  /**
+   * Create Program - Start another stamp card with its own rules and rewards
+   * POST /api/programs
+   */
+  static async createProgram(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await ProgramService.createProgram(
+        businessId,
+        parseProgramData(req.body) as LoyaltyProgramData,
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(PROGRAM_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Loyalty program created',
+        program: result.data
+      });
+    } catch (error) {
+      console.error('❌ Create loyalty program error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create loyalty program'
+      });
+    }
+  }
+
+  /**
+   * Update Program - Rename a program or change its stamp rules
+   * PUT /api/programs/:programId
+   */
+  static async updateProgram(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await ProgramService.updateProgram(
+        businessId,
+        req.params.programId,
+        parseProgramData(req.body),
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(PROGRAM_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Loyalty program updated',
+        program: result.data
+      });
+    } catch (error) {
+      console.error('❌ Update loyalty program error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update loyalty program'
+      });
+    }
+  }
+
+  /**
+   * Deactivate Program - Customers can no longer earn or spend stamps on it
+   * DELETE /api/programs/:programId
+   */
+  static async deactivateProgram(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await ProgramService.deactivateProgram(businessId, req.params.programId, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(PROGRAM_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Loyalty program deactivated'
+      });
+    } catch (error) {
+      console.error('❌ Deactivate loyalty program error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate loyalty program'
+      });
+    }
+  }
+
+  /**
+   * Get My Programs - The signed-in customer's balance on each of the business's stamp cards
+   * GET /api/programs/mine
+   */
+  static async getMyPrograms(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = (req as AuthRequest).customer;
+
+      if (!customer) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const programs = await ProgramService.getCustomerPrograms(customer.id, customer.businessId);
+
+      if (!programs) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get loyalty programs'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        programs
+      });
+    } catch (error) {
+      console.error('❌ Get customer programs error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get loyalty programs'
+      });
+    }
+  }
+}
@@ -0,0 +1,613 @@
+import { Request, Response } from 'express';
+import { RewardService } from '../services/rewardService';
+import { VoucherService } from '../services/voucherService';
+import { getAuditContext } from '../utils/requestContext';
+import { isRecord, readBoolean, readDate, readNumber, readString } from '../utils/requestBody';
+import { AuthRequest } from '../types/auth';
+import { RewardTierData, VoucherStatus } from '../types/rewards';
+
+const REWARD_ERROR_STATUS: Record<string, number> = {
+  BUSINESS_NOT_FOUND: 404,
+  CUSTOMER_NOT_FOUND: 404,
+  INSUFFICIENT_STAMPS: 400,
+  REDEMPTION_CONFLICT: 409,
+  TIER_NOT_FOUND: 404,
+  PROGRAM_NOT_FOUND: 404,
+  TIER_UNAVAILABLE: 400,
+  TIER_OUT_OF_STOCK: 409,
+  INVALID_TIER_WINDOW: 400,
+  CANNOT_DEACTIVATE_DEFAULT: 400,
+  VOUCHER_NOT_FOUND: 404,
+  VOUCHER_ALREADY_REDEEMED: 409,
+  VOUCHER_CANCELLED: 410,
+  VOUCHER_EXPIRED: 410,
+  VOUCHER_NOT_OPEN: 409
+};
+
+/**
+ * Reward tier fields from a request body (already validated); absent fields stay undefined
+ */
+const parseTierData = (body: unknown): Partial<RewardTierData> => {
+  if (!isRecord(body)) return {};
+
+  return {
+    name: readString(body.name) ?? undefined,
+    description: readString(body.description),
+    stampCost: readNumber(body.stampCost, parseInt) ?? undefined,
+    value: readNumber(body.value, parseFloat) ?? undefined,
+    isActive: readBoolean(body.isActive),
+    startsAt: readDate(body.startsAt),
+    endsAt: readDate(body.endsAt),
+    stockLimit: readNumber(body.stockLimit, parseInt)
+  };
+};
+
+export class RewardController {
+  /**
+   * Get Rewards - Redeemed rewards of the business, newest first
+   * GET /api/rewards?page=1&limit=50&customerId=&programId=&status=issued
+   */
+  static async getRewards(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { page, limit, customerId, programId, status } = req.query as Record<string, string | undefined>;
+
+      const result = await RewardService.listRewards(businessId, {
+        page: parseInt(page || '1'),
+        limit: parseInt(limit || '50'),
+        customerId,
+        programId,
+        status: status as VoucherStatus | undefined
+      });
+
+      if (!result) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get rewards'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        rewards: result.rewards,
+        pagination: result.pagination
+      });
+    } catch (error) {
+      console.error('❌ Get rewards error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get rewards'
+      });
+    }
+  }
+
+  /**
+   * Get My Rewards - A customer's progress, the reward catalog they can choose from and the rewards they redeemed
+   * GET /api/rewards/mine?page=1&limit=20
+   */
+  static async getMyRewards(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = (req as AuthRequest).customer;
+
+      if (!customer) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { page, limit, programId } = req.query as Record<string, string | undefined>;
+
+      const result = await RewardService.getCustomerRewards(customer.id, customer.businessId, {
+        page: parseInt(page || '1'),
+        limit: parseInt(limit || '20'),
+        programId
+      });
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        ...result.data
+      });
+    } catch (error) {
+      console.error('❌ Get my rewards error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get rewards'
+      });
+    }
+  }
+
+  /**
+   * Redeem Reward - Spend a customer's stamps on the business's reward
+   * POST /api/rewards/redeem
+   */
+  static async redeemReward(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { customerId, customerPhone, tierId, description } = req.body;
+
+      const result = await RewardService.redeem(
+        businessId,
+        { customerId, customerPhone, tierId, description },
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: `${result.data?.reward.type} redeemed`,
+        ...result.data
+      });
+    } catch (error) {
+      console.error('❌ Redeem reward error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to redeem reward'
+      });
+    }
+  }
+
+  /**
+   * Get Reward Rules - Stamps needed for a reward and what the reward is
+   * GET /api/rewards/rules
+   */
+  static async getRewardRules(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await RewardService.getRules(businessId);
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        rules: result.data
+      });
+    } catch (error) {
+      console.error('❌ Get reward rules error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get reward rules'
+      });
+    }
+  }
+
+  /**
+   * Update Reward Rules
+   * PUT /api/rewards/rules
+   */
+  static async updateRewardRules(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { stampsForReward, rewardType, rewardValue, voucherExpiryDays } = req.body;
+
+      const result = await RewardService.updateRules(
+        businessId,
+        {
+          stampsForReward: stampsForReward !== undefined ? parseInt(stampsForReward) : undefined,
+          rewardType,
+          rewardValue: rewardValue !== undefined ? parseFloat(rewardValue) : undefined,
+          voucherExpiryDays: voucherExpiryDays === undefined || voucherExpiryDays === null
+            ? voucherExpiryDays
+            : parseInt(voucherExpiryDays)
+        },
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Reward rules updated',
+        rules: result.data
+      });
+    } catch (error) {
+      console.error('❌ Update reward rules error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update reward rules'
+      });
+    }
+  }
+
+  /**
+   * Get Reward Tiers - The whole reward catalog, including inactive and sold-out tiers
+   * GET /api/rewards/tiers
+   */
+  static async getRewardTiers(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const tiers = await RewardService.listTiers(businessId, true, req.query.programId as string | undefined);
+
+      if (!tiers) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get reward tiers'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        tiers
+      });
+    } catch (error) {
+      console.error('❌ Get reward tiers error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get reward tiers'
+      });
+    }
+  }
+
+  /**
+   * Create Reward Tier - Add a reward to the catalog
+   * POST /api/rewards/tiers
+   */
+  static async createRewardTier(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await RewardService.createTier(
+        businessId,
+        { ...parseTierData(req.body), programId: req.body.programId } as RewardTierData,
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Reward tier created',
+        tier: result.data
+      });
+    } catch (error) {
+      console.error('❌ Create reward tier error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create reward tier'
+      });
+    }
+  }
+
+  /**
+   * Update Reward Tier - Updating the default tier also updates the reward rules
+   * PUT /api/rewards/tiers/:tierId
+   */
+  static async updateRewardTier(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await RewardService.updateTier(
+        businessId,
+        req.params.tierId,
+        parseTierData(req.body),
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Reward tier updated',
+        tier: result.data
+      });
+    } catch (error) {
+      console.error('❌ Update reward tier error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update reward tier'
+      });
+    }
+  }
+
+  /**
+   * Deactivate Reward Tier - Customers can no longer redeem it
+   * DELETE /api/rewards/tiers/:tierId
+   */
+  static async deactivateRewardTier(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await RewardService.deactivateTier(businessId, req.params.tierId, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Reward tier deactivated'
+      });
+    } catch (error) {
+      console.error('❌ Deactivate reward tier error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate reward tier'
+      });
+    }
+  }
+
+  /**
+   * Issue Voucher - A customer unlocks a reward to use on a later visit
+   * POST /api/rewards/vouchers
+   */
+  static async issueVoucher(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = (req as AuthRequest).customer;
+
+      if (!customer) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await VoucherService.issue(customer.id, customer.businessId, req.body.tierId, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: `${result.data?.type} unlocked. Show the voucher at the counter to use it.`,
+        voucher: result.data
+      });
+    } catch (error) {
+      console.error('❌ Issue voucher error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to issue voucher'
+      });
+    }
+  }
+
+  /**
+   * Get Voucher - Check a scanned or typed voucher code before redeeming it
+   * GET /api/rewards/vouchers/:code
+   */
+  static async getVoucher(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await VoucherService.getByCode(businessId, req.params.code);
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        voucher: result.data
+      });
+    } catch (error) {
+      console.error('❌ Get voucher error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get voucher'
+      });
+    }
+  }
+
+  /**
+   * Redeem Voucher - Hand over the reward for a scanned or typed voucher code
+   * POST /api/rewards/vouchers/redeem
+   */
+  static async redeemVoucher(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await VoucherService.redeem(businessId, req.body.code, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `${result.data?.type} redeemed`,
+        voucher: result.data
+      });
+    } catch (error) {
+      console.error('❌ Redeem voucher error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to redeem voucher'
+      });
+    }
+  }
+
+  /**
+   * Cancel Voucher - The customer gets their stamps back
+   * POST /api/rewards/vouchers/:voucherId/cancel
+   */
+  static async cancelVoucher(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await VoucherService.cancel(businessId, req.params.voucherId, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(REWARD_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Voucher cancelled and stamps returned',
+        voucher: result.data
+      });
+    } catch (error) {
+      console.error('❌ Cancel voucher error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel voucher'
+      });
+    }
+  }
+}
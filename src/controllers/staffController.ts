@@ -0,0 +1,180 @@
+import { Request, Response } from 'express';
+import { StaffService } from '../services/staffService';
+import { getAuditContext } from '../utils/requestContext';
+import { AuthRequest } from '../types/auth';
+
+const STAFF_ERROR_STATUS: Record<string, number> = {
+  BUSINESS_NOT_FOUND: 404,
+  STAFF_NOT_FOUND: 404,
+  EMAIL_IN_USE: 409
+};
+
+export class StaffController {
+  /**
+   * List Staff - All staff members of the business
+   * GET /api/businesses/staff
+   */
+  static async listStaff(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const staff = await StaffService.listStaff(businessId);
+
+      if (!staff) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to list staff'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        staff
+      });
+    } catch (error) {
+      console.error('❌ List staff error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list staff'
+      });
+    }
+  }
+
+  /**
+   * Invite Staff - Email an invite to a new cashier, manager or owner
+   * POST /api/businesses/staff
+   */
+  static async inviteStaff(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { name, email, role } = req.body;
+
+      const result = await StaffService.inviteStaff(businessId, { name, email, role }, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(STAFF_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Invite sent',
+        staff: result.data
+      });
+    } catch (error) {
+      console.error('❌ Invite staff error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to invite staff member'
+      });
+    }
+  }
+
+  /**
+   * Update Staff - Change a staff member's name, role or active flag
+   * PUT /api/businesses/staff/:staffId
+   */
+  static async updateStaff(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { staffId } = req.params;
+      const { name, role, isActive } = req.body;
+
+      const result = await StaffService.updateStaff(businessId, staffId, { name, role, isActive }, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(STAFF_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Staff member updated',
+        staff: result.data
+      });
+    } catch (error) {
+      console.error('❌ Update staff error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update staff member'
+      });
+    }
+  }
+
+  /**
+   * Remove Staff - Deactivate a staff member and sign them out everywhere
+   * DELETE /api/businesses/staff/:staffId
+   */
+  static async removeStaff(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { staffId } = req.params;
+
+      const result = await StaffService.updateStaff(businessId, staffId, { isActive: false }, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(STAFF_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Staff member deactivated'
+      });
+    } catch (error) {
+      console.error('❌ Remove staff error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove staff member'
+      });
+    }
+  }
+}
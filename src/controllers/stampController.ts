@@ -0,0 +1,485 @@
+import { Request, Response } from 'express';
+import { StampService } from '../services/stampService';
+import { getActor, getAuditContext } from '../utils/requestContext';
+import { isRecord, readDate, readNumber, readStringList } from '../utils/requestBody';
+import { AuthRequest } from '../types/auth';
+import { PurchaseDetails, StampSource } from '../types/stamps';
+
+const STAMP_ERROR_STATUS: Record<string, number> = {
+  BUSINESS_NOT_FOUND: 404,
+  PROGRAM_NOT_FOUND: 404,
+  STAMPS_EXCEED_MAX: 400,
+  QR_NOT_FOUND: 404,
+  INVALID_QR: 400,
+  QR_EXPIRED: 410,
+  QR_ALREADY_CLAIMED: 409,
+  QR_WRONG_BUSINESS: 403,
+  CUSTOMER_CONFLICT: 409,
+  STAMPS_CONFLICT: 409,
+  INVALID_CURSOR: 400,
+  TRANSACTION_NOT_FOUND: 404,
+  CANNOT_VOID_ADJUSTMENT: 400,
+  TRANSACTION_ALREADY_VOIDED: 409,
+  STAMPS_EXCEED_REMAINING: 400,
+  STAMPS_ALREADY_SPENT: 409,
+  TRANSACTION_CONFLICT: 409,
+  BELOW_MIN_SPEND: 400,
+  NO_STAMPS_EARNED: 400,
+  INVALID_DISPLAY_CODE: 400,
+  CLAIM_COOLDOWN: 429,
+  VISIT_TOO_SOON: 429,
+  CUSTOMER_DAILY_CAP: 429,
+  STAFF_DAILY_CAP: 429,
+  OUTSIDE_BUSINESS_HOURS: 403
+};
+
+/**
+ * Purchase details from a request body (already validated)
+ */
+const parsePurchase = (purchase: unknown): PurchaseDetails | undefined => {
+  if (!isRecord(purchase)) return undefined;
+
+  return {
+    amount: readNumber(purchase.amount, parseFloat) ?? NaN,
+    categories: readStringList(purchase.categories),
+    purchasedAt: readDate(purchase.purchasedAt) ?? undefined
+  };
+};
+
+export class StampController {
+  /**
+   * Generate QR - One-time QR code for a customer to scan
+   * POST /api/stamps/generate-qr
+   */
+  static async generateQr(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { programId, stampsValue, purchase } = req.body;
+
+      const result = await StampService.generateQr(
+        businessId,
+        {
+          programId,
+          stampsValue: stampsValue !== undefined ? parseInt(stampsValue) : undefined,
+          purchase: parsePurchase(purchase)
+        },
+        getActor(req)
+      );
+
+      if (!result.success) {
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        qr: result.data
+      });
+    } catch (error) {
+      console.error('❌ Generate QR error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate QR code'
+      });
+    }
+  }
+
+  /**
+   * Preview Stamps - How many stamps an order would earn, without issuing any
+   * POST /api/stamps/preview
+   */
+  static async previewStamps(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await StampService.previewStamps(
+        businessId,
+        req.body.programId,
+        parsePurchase(req.body.purchase) as PurchaseDetails
+      );
+
+      if (!result.success) {
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        preview: result.data
+      });
+    } catch (error) {
+      console.error('❌ Preview stamps error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to preview stamps'
+      });
+    }
+  }
+
+  /**
+   * Check QR Status - Poll whether a QR code has been claimed
+   * GET /api/stamps/qr-status/:qrId
+   */
+  static async checkQrStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await StampService.getQrStatus(businessId, req.params.qrId);
+
+      if (!result.success) {
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        qr: result.data
+      });
+    } catch (error) {
+      console.error('❌ Check QR status error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get QR code status'
+      });
+    }
+  }
+
+  /**
+   * Claim QR - A signed-in customer collects the stamps from a scanned QR code
+   * POST /api/stamps/claim
+   */
+  static async claimQr(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = (req as AuthRequest).customer;
+
+      if (!customer) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await StampService.claimQr(customer.id, customer.businessId, req.body.token, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `${result.data?.stampsAwarded} stamp(s) added to your card`,
+        ...result.data
+      });
+    } catch (error) {
+      console.error('❌ Claim QR error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to claim QR code'
+      });
+    }
+  }
+
+  /**
+   * Claim Display - A signed-in customer collects stamps from a counter display's rotating code
+   * POST /api/stamps/claim-display
+   */
+  static async claimDisplay(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = (req as AuthRequest).customer;
+
+      if (!customer) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await StampService.claimDisplay(
+        customer.id,
+        customer.businessId,
+        req.body.displayId,
+        req.body.code,
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        if (result.retryAfter) {
+          res.set('Retry-After', String(result.retryAfter));
+        }
+
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code,
+          retryAfter: result.retryAfter
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `${result.data?.stampsAwarded} stamp(s) added to your card`,
+        ...result.data
+      });
+    } catch (error) {
+      console.error('❌ Claim display error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to claim stamps'
+      });
+    }
+  }
+
+  /**
+   * Grant Manual - Give stamps to a customer by phone number
+   * POST /api/stamps/grant-manual
+   */
+  static async grantManual(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { customerPhone, programId, stampsValue, purchase, notes } = req.body;
+
+      const result = await StampService.grantManual(
+        businessId,
+        {
+          customerPhone,
+          programId,
+          stampsValue: stampsValue !== undefined ? parseInt(stampsValue) : undefined,
+          purchase: parsePurchase(purchase),
+          notes
+        },
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: result.data?.rewardUnlocked
+          ? 'Stamps granted - the customer just unlocked a reward!'
+          : 'Stamps granted',
+        ...result.data
+      });
+    } catch (error) {
+      console.error('❌ Manual stamp grant error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to grant stamps'
+      });
+    }
+  }
+
+  /**
+   * Void Transaction - Reverse all or part of a stamp transaction with a compensating entry
+   * POST /api/stamps/transactions/:transactionId/void
+   */
+  static async voidTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { reason, stamps } = req.body;
+
+      const result = await StampService.voidTransaction(
+        businessId,
+        req.params.transactionId,
+        { reason, stamps },
+        getAuditContext(req)
+      );
+
+      if (!result.success) {
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `${result.data?.stampsReversed} stamp(s) reversed`,
+        ...result.data
+      });
+    } catch (error) {
+      console.error('❌ Void transaction error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to void transaction'
+      });
+    }
+  }
+
+  /**
+   * Get Transactions - Stamp transactions of the business, newest first, with totals
+   * GET /api/stamps/transactions
+   */
+  static async getTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { cursor, limit, customerId, programId, source, staffId, from, to, includeCustomer } = req.query as Record<string, string | undefined>;
+
+      const result = await StampService.listTransactions(businessId, {
+        limit: parseInt(limit || '50'),
+        cursor,
+        customerId,
+        programId,
+        source: source as StampSource | undefined,
+        staffId,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        includeCustomer: includeCustomer === 'true'
+      });
+
+      if (!result.success) {
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data?.transactions,
+        pagination: result.data?.pagination,
+        totals: result.data?.totals
+      });
+    } catch (error) {
+      console.error('❌ Get transactions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get stamp transactions'
+      });
+    }
+  }
+
+  /**
+   * Get Stamp History - The signed-in customer's own stamp transactions
+   * GET /api/stamps/history
+   */
+  static async getStampHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = (req as AuthRequest).customer;
+
+      if (!customer) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const { cursor, limit, programId, source, from, to } = req.query as Record<string, string | undefined>;
+
+      const result = await StampService.listTransactions(customer.businessId, {
+        limit: parseInt(limit || '20'),
+        cursor,
+        customerId: customer.id,
+        programId,
+        source: source as StampSource | undefined,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined
+      });
+
+      if (!result.success) {
+        res.status(STAMP_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data?.transactions,
+        pagination: result.data?.pagination,
+        totals: result.data?.totals
+      });
+    } catch (error) {
+      console.error('❌ Get stamp history error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get stamp history'
+      });
+    }
+  }
+}
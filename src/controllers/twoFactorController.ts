@@ -0,0 +1,271 @@
+import { Request, Response } from 'express';
+import { TwoFactorService } from '../services/twoFactorService';
+import { CookieHelper } from '../utils/cookieHelper';
+import { getAuditContext, getClientContext } from '../utils/requestContext';
+import { AuthRequest } from '../types/auth';
+
+const TWO_FACTOR_ERROR_STATUS: Record<string, number> = {
+  BUSINESS_NOT_FOUND: 404,
+  TWO_FACTOR_ALREADY_ENABLED: 409,
+  TWO_FACTOR_NOT_ENABLED: 409,
+  TWO_FACTOR_NOT_STARTED: 400,
+  TWO_FACTOR_TOKEN_INVALID: 401,
+  INVALID_2FA_CODE: 401,
+  INVALID_PASSWORD: 401,
+  ACCOUNT_LOCKED: 423,
+  TOO_MANY_ATTEMPTS: 429
+};
+
+export class TwoFactorController {
+  /**
+   * 2FA Status - Whether two-factor is enabled for the account
+   * GET /api/auth/2fa
+   */
+  static async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const status = await TwoFactorService.getStatus(businessId);
+
+      if (!status) {
+        res.status(404).json({
+          success: false,
+          error: 'Business account not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        twoFactor: status
+      });
+    } catch (error) {
+      console.error('❌ Get 2FA status error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get two-factor status'
+      });
+    }
+  }
+
+  /**
+   * Setup 2FA - Generate a secret and otpauth URI for the authenticator app
+   * POST /api/auth/2fa/setup
+   */
+  static async setup(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await TwoFactorService.beginEnrollment(businessId);
+
+      if (!result.success) {
+        res.status(TWO_FACTOR_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+        ...result.data
+      });
+    } catch (error) {
+      console.error('❌ 2FA setup error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start two-factor setup'
+      });
+    }
+  }
+
+  /**
+   * Confirm 2FA - Enable two-factor with a code from the app
+   * POST /api/auth/2fa/confirm
+   */
+  static async confirm(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await TwoFactorService.confirmEnrollment(businessId, req.body.code, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(TWO_FACTOR_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe.',
+        recoveryCodes: result.data?.recoveryCodes
+      });
+    } catch (error) {
+      console.error('❌ 2FA confirm error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to enable two-factor authentication'
+      });
+    }
+  }
+
+  /**
+   * Verify 2FA - Second sign-in step, issues the session cookies
+   * POST /api/auth/2fa/verify
+   */
+  static async verify(req: Request, res: Response): Promise<void> {
+    try {
+      const { twoFactorToken, code, recoveryCode } = req.body;
+
+      const result = await TwoFactorService.completeSignIn(twoFactorToken, code, recoveryCode, getClientContext(req));
+
+      if (!result.success) {
+        if (result.retryAfter) {
+          res.set('Retry-After', String(result.retryAfter));
+        }
+
+        res.status(TWO_FACTOR_ERROR_STATUS[result.code || ''] || 401).json({
+          success: false,
+          error: result.error,
+          code: result.code,
+          retryAfter: result.retryAfter
+        });
+        return;
+      }
+
+      // Type guard: Ensure data exists when success is true
+      if (!result.data || !result.data.token || !result.data.refreshToken || !result.data.expiresAt || !result.data.business) {
+        res.status(500).json({
+          success: false,
+          error: 'Invalid response from authentication service'
+        });
+        return;
+      }
+
+      CookieHelper.setAuthCookies(res, result.data.token, result.data.refreshToken, result.data.expiresAt);
+
+      res.json({
+        success: true,
+        message: 'Signed in successfully',
+        business: result.data.business
+      });
+    } catch (error) {
+      console.error('❌ 2FA verify error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Sign in failed'
+      });
+    }
+  }
+
+  /**
+   * Regenerate Recovery Codes - Replace all recovery codes
+   * POST /api/auth/2fa/recovery-codes
+   */
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await TwoFactorService.regenerateRecoveryCodes(businessId, req.body.code, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(TWO_FACTOR_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'New recovery codes generated. Previous codes no longer work.',
+        recoveryCodes: result.data?.recoveryCodes
+      });
+    } catch (error) {
+      console.error('❌ Regenerate recovery codes error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to regenerate recovery codes'
+      });
+    }
+  }
+
+  /**
+   * Disable 2FA - Requires the password plus a code or recovery code
+   * POST /api/auth/2fa/disable
+   */
+  static async disable(req: Request, res: Response): Promise<void> {
+    try {
+      const businessId = (req as AuthRequest).business?.id;
+      const { password, code, recoveryCode } = req.body;
+
+      if (!businessId) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+        return;
+      }
+
+      const result = await TwoFactorService.disable(businessId, password, code, recoveryCode, getAuditContext(req));
+
+      if (!result.success) {
+        res.status(TWO_FACTOR_ERROR_STATUS[result.code || ''] || 500).json({
+          success: false,
+          error: result.error,
+          code: result.code
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error) {
+      console.error('❌ 2FA disable error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to disable two-factor authentication'
+      });
+    }
+  }
+}
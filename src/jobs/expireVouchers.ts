@@ -0,0 +1,22 @@
+// src/jobs/expireVouchers.ts
+// Marks reward vouchers past their expiry date as expired (Business.voucherExpiryDays after issue).
+//
+//   npm run rewards:expire-vouchers
+//
+// Vouchers past their date already can't be redeemed; this updates their status and returns the
+// tier's stock. Run hourly from cron.
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { prisma } from '../app';
+import { VoucherService } from '../services/voucherService';
+
+VoucherService.expireVouchers()
+  .then(expired => {
+    console.log(`🎟️ Expired ${expired} voucher(s)`);
+  })
+  .catch(error => {
+    console.error('❌ Voucher expiry failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,54 @@
+// src/jobs/migrateCustomerMemberships.ts
+// Moves customers from before the global customer identity onto memberships: every customer
+// row still tied to one business (legacyBusinessId) gets a membership there, and the
+// membership's counters are rebuilt from the stamp ledger.
+//
+//   npm run customers:migrate-memberships
+//
+// Safe to run more than once. Run it as part of the deploy that ships the schema change.
+// Customers who sign in or use a session before it runs are moved then, but until it runs
+// everyone else is missing from their business's stats.
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { prisma } from '../app';
+import { MembershipService } from '../services/membershipService';
+
+async function migrateCustomerMemberships() {
+  const customers = await prisma.customer.findMany({
+    where: { legacyBusinessId: { not: null } },
+    select: { id: true }
+  });
+
+  console.log(`👥 Creating memberships for ${customers.length} customer(s)`);
+
+  const businessIds = new Set<string>();
+  let failed = 0;
+
+  for (const customer of customers) {
+    try {
+      const businessId = await MembershipService.adoptLegacyCustomer(customer.id);
+
+      if (businessId) {
+        businessIds.add(businessId);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`❌ Customer ${customer.id}:`, error);
+    }
+  }
+
+  console.log(`\n✅ Done: ${customers.length - failed} membership(s) created across ${businessIds.size} business(es), ${failed} failed`);
+
+  return failed > 0 ? 1 : 0;
+}
+
+migrateCustomerMemberships()
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch(error => {
+    console.error('❌ Customer membership migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
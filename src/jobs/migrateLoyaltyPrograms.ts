@@ -0,0 +1,59 @@
+// src/jobs/migrateLoyaltyPrograms.ts
+// Creates the default loyalty program of every business that doesn't have one yet and moves
+// the rows recorded before programs existed (stamp transactions, QR codes, rewards, reward
+// tiers, counter displays, ledger entries) onto it.
+//
+//   npm run programs:migrate
+//
+// Safe to run more than once. Rows without a program already count towards the default
+// program, so the backfill only makes the data explicit.
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { prisma } from '../app';
+import { ProgramService } from '../services/programService';
+
+async function migrateLoyaltyPrograms() {
+  const businesses = await prisma.business.findMany({ select: { id: true } });
+
+  console.log(`🗂️ Migrating ${businesses.length} business(es) to loyalty programs`);
+
+  let failed = 0;
+  let backfilled = 0;
+
+  for (const business of businesses) {
+    try {
+      const program = await ProgramService.getDefaultProgram(prisma, business.id);
+      const where = { businessId: business.id, programId: null };
+      const data = { programId: program.id };
+
+      const updated = await prisma.$transaction([
+        prisma.stampTransaction.updateMany({ where, data }),
+        prisma.qrCode.updateMany({ where, data }),
+        prisma.reward.updateMany({ where, data }),
+        prisma.rewardTier.updateMany({ where, data }),
+        prisma.counterDisplay.updateMany({ where, data }),
+        prisma.stampLedgerEntry.updateMany({ where, data })
+      ]);
+
+      backfilled += updated.reduce((sum, result) => sum + result.count, 0);
+    } catch (error) {
+      failed++;
+      console.error(`❌ Business ${business.id}:`, error);
+    }
+  }
+
+  console.log(`\n✅ Done: ${businesses.length - failed} business(es) migrated, ${backfilled} row(s) backfilled, ${failed} failed`);
+
+  return failed > 0 ? 1 : 0;
+}
+
+migrateLoyaltyPrograms()
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch(error => {
+    console.error('❌ Loyalty program migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,47 @@
+// src/jobs/migrateRewardTiers.ts
+// Creates the default reward tier of every business that doesn't have one yet, from its
+// single-reward fields (stampsForReward, rewardType, rewardValue).
+//
+//   npm run rewards:migrate-tiers
+//
+// Safe to run more than once. Businesses that are missed get their default tier the first
+// time their catalog is read or a reward is redeemed.
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { prisma } from '../app';
+import { RewardService } from '../services/rewardService';
+
+async function migrateRewardTiers() {
+  const businesses = await prisma.business.findMany({
+    where: { rewardTiers: { none: { isDefault: true } } },
+    select: { id: true }
+  });
+
+  console.log(`🎁 Creating default reward tiers for ${businesses.length} business(es)`);
+
+  let failed = 0;
+
+  for (const business of businesses) {
+    try {
+      await RewardService.getDefaultTier(prisma, business.id);
+    } catch (error) {
+      failed++;
+      console.error(`❌ Business ${business.id}:`, error);
+    }
+  }
+
+  console.log(`\n✅ Done: ${businesses.length - failed} tier(s) created, ${failed} failed`);
+
+  return failed > 0 ? 1 : 0;
+}
+
+migrateRewardTiers()
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch(error => {
+    console.error('❌ Reward tier migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
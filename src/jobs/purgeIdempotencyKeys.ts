@@ -0,0 +1,21 @@
+// src/jobs/purgeIdempotencyKeys.ts
+// Deletes Idempotency-Key records past their retention window (IDEMPOTENCY_KEY_RETENTION_HOURS).
+//
+//   npm run idempotency:purge
+//
+// Expired keys are already ignored when a request reuses them; this keeps the table small. Run hourly from cron.
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { prisma } from '../app';
+import { IdempotencyService } from '../services/idempotencyService';
+
+IdempotencyService.purgeExpired()
+  .then(purged => {
+    console.log(`🧹 Purged ${purged} expired idempotency key(s)`);
+  })
+  .catch(error => {
+    console.error('❌ Idempotency key purge failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,70 @@
+// src/jobs/reconcileLedger.ts
+// Compares the cached stamp counters of customers' memberships with the stamp ledger and reports drift.
+//
+//   npm run ledger:reconcile                        report only, every business
+//   npm run ledger:reconcile -- --business <id>     one business
+//   npm run ledger:reconcile -- --repair            backfill missing entries and fix counters
+//
+// Exits with code 1 when drift was found and not repaired, so it can run from cron.
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { prisma } from '../app';
+import { LedgerService } from '../services/ledgerService';
+
+const parseArgs = (argv: string[]) => {
+  const businessIndex = argv.indexOf('--business');
+
+  return {
+    businessId: businessIndex >= 0 ? argv[businessIndex + 1] : undefined,
+    repair: argv.includes('--repair')
+  };
+};
+
+async function reconcileLedger() {
+  const { businessId, repair } = parseArgs(process.argv.slice(2));
+
+  const businessIds: string[] = businessId
+    ? [businessId]
+    : (await prisma.business.findMany({ select: { id: true }, orderBy: { createdAt: 'asc' } })).map(business => business.id);
+
+  console.log(`🧾 Reconciling stamp ledger for ${businessIds.length} business(es)${repair ? ' (repair mode)' : ''}`);
+
+  let drifted = 0;
+  let failed = 0;
+
+  for (const id of businessIds) {
+    const report = await LedgerService.reconcileBusiness(id, repair);
+
+    if (!report) {
+      failed++;
+      continue;
+    }
+
+    const { stampTransactions, rewards } = report.missingEntries;
+    if (report.mismatches.length === 0 && stampTransactions === 0 && rewards === 0) {
+      continue;
+    }
+
+    drifted++;
+    console.log(`\n⚠️  Business ${report.businessId} (${report.customersChecked} customers)`);
+    console.log(`   Missing ledger entries: ${stampTransactions} stamp transaction(s), ${rewards} reward(s)`);
+    report.mismatches.forEach(mismatch => {
+      console.log(`   Customer ${mismatch.customerId}: ${mismatch.field} cached ${mismatch.cached}, ledger ${mismatch.expected}`);
+    });
+  }
+
+  console.log(`\n✅ Done: ${drifted} business(es) with drift${repair ? ' repaired' : ''}, ${failed} failed`);
+
+  return failed > 0 || (drifted > 0 && !repair) ? 1 : 0;
+}
+
+reconcileLedger()
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch(error => {
+    console.error('❌ Ledger reconciliation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
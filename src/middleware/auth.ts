@@ -2,8 +2,14 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../app';
+import { SessionService } from '../services/sessionService';
+import { ApiKeyService } from '../services/apiKeyService';
+import { MembershipService } from '../services/membershipService';
 import { logError } from '../utils/errorHandler';
-import { AuthRequest } from '../types/auth';
+import { API_KEY_PREFIX } from '../utils/auth';
+import { verifyWithKeyRing } from '../utils/keyRing';
+import { getClientContext } from '../utils/requestContext';
+import { ApiKeyScope, AuthRequest, StaffRole } from '../types/auth';
 
 /**
  * Middleware to authenticate business users
@@ -30,18 +36,8 @@ export const authenticateBusiness = async (req: Request, res: Response, next: Ne
       return; 
     }
 
-    // Verify JWT token
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      console.error('❌ JWT_SECRET environment variable is not set');
-      res.status(500).json({
-        success: false,
-        error: 'Server configuration error'
-      });
-      return; 
-    }
-
-    const decoded = jwt.verify(token, secret) as any;
+    // Verify JWT token (signature, issuer and business audience)
+    const decoded = verifyWithKeyRing('business', token);
     
     // Check token type
     if (decoded.type !== 'business') {
@@ -73,8 +69,54 @@ export const authenticateBusiness = async (req: Request, res: Response, next: Ne
       return; 
     }
 
+    // The token is only as good as its server-side session (sign-out, password change, etc.)
+    const sessionActive = decoded.sessionId
+      && await SessionService.touchSession(decoded.sessionId, getClientContext(req));
+
+    if (!sessionActive) {
+      res.status(401).json({ 
+        success: false,
+        error: 'Session is no longer valid. Please sign in again.',
+        code: 'SESSION_REVOKED'
+      });
+      return;
+    }
+
+    // Staff members sign in under the business they work for
+    if (decoded.staffId) {
+      const staff = await prisma.staffMember.findUnique({
+        where: { id: decoded.staffId },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          isActive: true,
+          businessId: true
+        }
+      });
+
+      if (!staff || !staff.isActive || staff.businessId !== business.id) {
+        res.status(401).json({ 
+          success: false,
+          error: 'Staff account is no longer active.',
+          code: 'STAFF_INACTIVE'
+        });
+        return;
+      }
+
+      (req as AuthRequest).staff = {
+        id: staff.id,
+        name: staff.name,
+        email: staff.email,
+        role: staff.role as StaffRole
+      };
+    }
+
     // Cast request to AuthRequest and attach business info for next middleware/function
     (req as AuthRequest).business = business; 
+    (req as AuthRequest).role = (req as AuthRequest).staff?.role || 'owner';
+    (req as AuthRequest).sessionId = decoded.sessionId;
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -104,9 +146,117 @@ export const authenticateBusiness = async (req: Request, res: Response, next: Ne
   }
 };
 
+/**
+ * Middleware to authenticate a business by API key, or by session like authenticateBusiness
+ * Keys are read from the X-API-Key header or an "Authorization: Bearer gok_..." header
+ * Pair with requireScope - API keys never pass requireRole
+ */
+export const authenticateBusinessOrApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  let key = req.header('X-API-Key');
+
+  if (!key) {
+    const authHeader = req.header('Authorization');
+    if (authHeader && authHeader.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+      key = authHeader.replace('Bearer ', '');
+    }
+  }
+
+  if (!key) {
+    return authenticateBusiness(req, res, next);
+  }
+
+  try {
+    const apiKey = await ApiKeyService.authenticate(key, getClientContext(req));
+
+    if (!apiKey) {
+      res.status(401).json({ 
+        success: false,
+        error: 'Invalid, expired or revoked API key.',
+        code: 'INVALID_API_KEY'
+      });
+      return;
+    }
+
+    (req as AuthRequest).business = apiKey.business;
+    (req as AuthRequest).apiKey = {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes
+    };
+    next();
+  } catch (error) {
+    logError('API key authentication middleware', error);
+    res.status(500).json({
+      success: false,
+      error: 'Authentication failed'
+    });
+  }
+};
+
+/**
+ * Middleware to require a scope when the caller is an API key
+ * Signed-in users are not affected
+ * Must run after authenticateBusinessOrApiKey
+ */
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const apiKey = (req as AuthRequest).apiKey;
+
+    if (apiKey && !apiKey.scopes.includes(scope)) {
+      res.status(403).json({ 
+        success: false,
+        error: `This API key is missing the ${scope} scope.`,
+        code: 'INSUFFICIENT_SCOPE'
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware to restrict a route to certain staff roles
+ * Must run after authenticateBusiness
+ */
+export const requireRole = (...roles: StaffRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const role = (req as AuthRequest).role;
+
+    if (!role || !roles.includes(role)) {
+      res.status(403).json({ 
+        success: false,
+        error: 'You do not have permission to perform this action.',
+        code: 'INSUFFICIENT_ROLE'
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware to restrict a route to the business account itself
+ * Staff members - even those with the owner role - are rejected
+ * Must run after authenticateBusiness
+ */
+export const requireAccountOwner = (req: Request, res: Response, next: NextFunction): void => {
+  if ((req as AuthRequest).staff) {
+    res.status(403).json({ 
+      success: false,
+      error: 'Only the business account holder can perform this action.',
+      code: 'ACCOUNT_OWNER_REQUIRED'
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Middleware to authenticate customer users
- * Checks for valid customer JWT token
+ * Checks for valid customer JWT token and the customer's membership at the business they signed in to
  */
 export const authenticateCustomer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -129,17 +279,7 @@ export const authenticateCustomer = async (req: Request, res: Response, next: Ne
       return; 
     }
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      console.error('❌ JWT_SECRET environment variable is not set');
-      res.status(500).json({
-        success: false,
-        error: 'Server configuration error'
-      });
-      return; 
-    }
-
-    const decoded = jwt.verify(token, secret) as any;
+    const decoded = verifyWithKeyRing('customer', token);
     
     if (decoded.type !== 'customer') {
       res.status(401).json({ 
@@ -150,20 +290,33 @@ export const authenticateCustomer = async (req: Request, res: Response, next: Ne
       return;
     }
 
-    const customer = await prisma.customer.findUnique({
-      where: { id: decoded.customerId },
-      select: {
-        id: true,
-        phone: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        businessId: true,
-        isVerified: true
-      }
+    const findMembership = () => prisma.customerMembership.findUnique({
+      where: { customerId_businessId: { customerId: decoded.customerId, businessId: decoded.businessId } },
+      select: { id: true }
     });
 
-    if (!customer) {
+    const [customer, existingMembership] = await Promise.all([
+      prisma.customer.findUnique({
+        where: { id: decoded.customerId },
+        select: {
+          id: true,
+          phone: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          isVerified: true
+        }
+      }),
+      findMembership()
+    ]);
+
+    // A customer from before memberships existed gets theirs the first time they're seen
+    let membership = existingMembership;
+    if (customer && !membership && await MembershipService.adoptLegacyCustomer(customer.id)) {
+      membership = await findMembership();
+    }
+
+    if (!customer || !membership) {
       res.status(401).json({ 
         success: false,
         error: 'Customer account not found.',
@@ -172,8 +325,21 @@ export const authenticateCustomer = async (req: Request, res: Response, next: Ne
       return; 
     }
 
+    const sessionActive = decoded.sessionId
+      && await SessionService.touchSession(decoded.sessionId, getClientContext(req));
+
+    if (!sessionActive) {
+      res.status(401).json({ 
+        success: false,
+        error: 'Session is no longer valid. Please sign in again.',
+        code: 'SESSION_REVOKED'
+      });
+      return;
+    }
+
     // Cast request to AuthRequest and attach customer info
-    (req as AuthRequest).customer = customer;
+    (req as AuthRequest).customer = { ...customer, businessId: decoded.businessId, membershipId: membership.id };
+    (req as AuthRequest).sessionId = decoded.sessionId;
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -219,24 +385,34 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
     }
 
     if (token) {
-      const secret = process.env.JWT_SECRET;
-      if (secret) {
-        const decoded = jwt.verify(token, secret) as any;
-        
-        if (decoded.type === 'business') {
-          const business = await prisma.business.findUnique({
-            where: { id: decoded.businessId },
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              isVerified: true
-            }
+      const decoded = verifyWithKeyRing('business', token);
+
+      const business = await prisma.business.findUnique({
+        where: { id: decoded.businessId },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          isVerified: true
+        }
+      });
+      
+      const sessionActive = decoded.sessionId
+        && await SessionService.touchSession(decoded.sessionId, getClientContext(req));
+
+      if (business && sessionActive) {
+        // Cast request to AuthRequest and attach business info
+        (req as AuthRequest).business = business;
+        (req as AuthRequest).sessionId = decoded.sessionId;
+
+        if (decoded.staffId) {
+          const staff = await prisma.staffMember.findUnique({
+            where: { id: decoded.staffId },
+            select: { id: true, name: true, email: true, role: true }
           });
-          
-          if (business) {
-            // Cast request to AuthRequest and attach business info
-            (req as AuthRequest).business = business;
+
+          if (staff) {
+            (req as AuthRequest).staff = { ...staff, role: staff.role as StaffRole };
           }
         }
       }
@@ -247,4 +423,34 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
     // If token is invalid, just continue without auth
     next();
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Optional customer authentication middleware
+ * Attaches the customer session if the token is valid, but doesn't block if missing
+ */
+export const optionalCustomerAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    let token = req.cookies?.customer_token;
+
+    if (!token) {
+      const authHeader = req.header('Authorization');
+      if (authHeader && authHeader.startsWith('Bearer ')) {
+        token = authHeader.replace('Bearer ', '');
+      }
+    }
+
+    if (token) {
+      const decoded = verifyWithKeyRing('customer', token);
+
+      if (decoded.sessionId) {
+        (req as AuthRequest).sessionId = decoded.sessionId;
+      }
+    }
+
+    next();
+  } catch (error) {
+    // If token is invalid, just continue without auth
+    next();
+  }
+};
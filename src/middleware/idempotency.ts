@@ -0,0 +1,101 @@
+// src/middleware/idempotency.ts
+import { Request, Response, NextFunction } from 'express';
+import { IdempotencyService } from '../services/idempotencyService';
+import { hashToken } from '../utils/auth';
+import { logError } from '../utils/errorHandler';
+import { AuthRequest } from '../types/auth';
+
+const MAX_KEY_LENGTH = 255;
+
+// Responses worth retrying with the same key (conflicts, rate limits, server errors) aren't stored
+const isStorable = (statusCode: number): boolean => {
+  return statusCode < 500 && statusCode !== 409 && statusCode !== 429;
+};
+
+/**
+ * Middleware to make a mutating request safe to retry with an Idempotency-Key header
+ * The first response for a key is stored and replayed to retries; reusing the key for a
+ * different request is rejected with 409. Requests without the header run as usual.
+ * Must run after authentication (keys are scoped to the business)
+ */
+export const idempotent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.header('Idempotency-Key');
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`,
+      code: 'INVALID_IDEMPOTENCY_KEY'
+    });
+    return;
+  }
+
+  const { business, customer } = req as AuthRequest;
+  const businessId = business?.id || customer?.businessId;
+
+  if (!businessId) {
+    next();
+    return;
+  }
+
+  try {
+    const result = await IdempotencyService.begin({
+      businessId,
+      // Customers of a business don't share a key space with each other or with the business
+      key: customer ? `customer:${customer.id}:${key}` : key,
+      requestHash: hashToken(JSON.stringify({ method: req.method, path: req.baseUrl + req.path, body: req.body }))
+    });
+
+    if (result.status === 'mismatch') {
+      res.status(409).json({
+        success: false,
+        error: 'This Idempotency-Key was already used for a different request',
+        code: 'IDEMPOTENCY_KEY_REUSED'
+      });
+      return;
+    }
+
+    if (result.status === 'in_progress') {
+      res.set('Retry-After', '1');
+      res.status(409).json({
+        success: false,
+        error: 'A request with this Idempotency-Key is still being processed',
+        code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+      });
+      return;
+    }
+
+    if (result.status === 'replay') {
+      res.set('Idempotent-Replayed', 'true');
+      res.status(result.statusCode).json(result.response);
+      return;
+    }
+
+    // Store the response before sending it, so a retry can't slip in between
+    const send = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const stored = isStorable(res.statusCode)
+        ? IdempotencyService.complete(result.id, res.statusCode, body)
+        : IdempotencyService.release(result.id);
+
+      stored
+        .catch(error => logError('Store idempotent response', error))
+        .finally(() => send(body));
+
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    console.error('❌ Idempotency key error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process Idempotency-Key'
+    });
+  }
+};
@@ -1,16 +1,69 @@
 import express from 'express';
 import { AuthController } from '../controllers/authController';
-import { authenticateBusiness } from '../middleware/auth';
-import { businessSignupValidation, businessSigninValidation } from '../utils/validation';
+import { CustomerAuthController } from '../controllers/customerAuthController';
+import { TwoFactorController } from '../controllers/twoFactorController';
+import {
+  authenticateBusiness,
+  authenticateCustomer,
+  optionalAuth,
+  optionalCustomerAuth,
+  requireRole,
+  requireAccountOwner
+} from '../middleware/auth';
+import {
+  businessSignupValidation,
+  businessSigninValidation,
+  customerSignupValidation,
+  otpVerificationValidation,
+  passwordResetRequestValidation,
+  passwordResetValidation,
+  emailVerificationValidation,
+  passwordChangeValidation,
+  staffAcceptInviteValidation,
+  twoFactorCodeValidation,
+  twoFactorVerifyValidation,
+  twoFactorDisableValidation
+} from '../utils/validation';
 
 const router = express.Router();
 
 // Business Authentication Routes
 router.post('/business/signup', businessSignupValidation, AuthController.businessSignup);
 router.post('/business/signin', businessSigninValidation, AuthController.businessSignin);
-router.post('/business/signout', AuthController.businessSignout);
+router.post('/business/signout', optionalAuth, AuthController.businessSignout);
 router.get('/me', authenticateBusiness, AuthController.getMe);
-router.post('/refresh', authenticateBusiness, AuthController.refreshToken);
+router.post('/refresh', AuthController.refreshToken);
+router.post('/refresh/signout', optionalAuth, AuthController.businessSignout);
 router.get('/check', authenticateBusiness, AuthController.checkAuth);
 
-export default router;
\ No newline at end of file
+// Password Reset & Email Verification
+router.post('/business/forgot-password', passwordResetRequestValidation, AuthController.forgotPassword);
+router.post('/business/reset-password', passwordResetValidation, AuthController.resetPassword);
+router.post('/business/send-verification', authenticateBusiness, AuthController.sendVerification);
+router.post('/business/verify-email', emailVerificationValidation, AuthController.verifyEmail);
+router.post('/business/change-password', authenticateBusiness, requireAccountOwner, passwordChangeValidation, AuthController.changePassword);
+
+// Two-Factor Authentication (business account holder only)
+router.post('/2fa/verify', twoFactorVerifyValidation, TwoFactorController.verify);
+router.get('/2fa', authenticateBusiness, requireAccountOwner, TwoFactorController.getStatus);
+router.post('/2fa/setup', authenticateBusiness, requireAccountOwner, TwoFactorController.setup);
+router.post('/2fa/confirm', authenticateBusiness, requireAccountOwner, twoFactorCodeValidation, TwoFactorController.confirm);
+router.post('/2fa/recovery-codes', authenticateBusiness, requireAccountOwner, twoFactorCodeValidation, TwoFactorController.regenerateRecoveryCodes);
+router.post('/2fa/disable', authenticateBusiness, requireAccountOwner, twoFactorDisableValidation, TwoFactorController.disable);
+
+// Staff Authentication Routes (staff sign out through /business/signout)
+router.post('/staff/signin', businessSigninValidation, AuthController.staffSignin);
+router.post('/staff/accept-invite', staffAcceptInviteValidation, AuthController.acceptStaffInvite);
+
+// Session Management
+router.get('/sessions', authenticateBusiness, requireRole('owner'), AuthController.listSessions);
+router.delete('/sessions', authenticateBusiness, requireRole('owner'), AuthController.revokeAllSessions);
+router.delete('/sessions/:sessionId', authenticateBusiness, requireRole('owner'), AuthController.revokeSession);
+
+// Customer Authentication Routes (phone + one-time code)
+router.post('/customer/request-otp', customerSignupValidation, CustomerAuthController.requestOtp);
+router.post('/customer/verify-otp', otpVerificationValidation, CustomerAuthController.verifyOtp);
+router.post('/customer/signout', optionalCustomerAuth, CustomerAuthController.signout);
+router.get('/customer/me', authenticateCustomer, CustomerAuthController.getMe);
+
+export default router;
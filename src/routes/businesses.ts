@@ -1,15 +1,56 @@
 import express from 'express';
+import { ApiKeyController } from '../controllers/apiKeyController';
 import { BusinessController } from '../controllers/businessController';
-import { authenticateBusiness } from '../middleware/auth';
+import { CounterDisplayController } from '../controllers/counterDisplayController';
+import { EventController } from '../controllers/eventController';
+import { FraudController } from '../controllers/fraudController';
+import { StaffController } from '../controllers/staffController';
+import { authenticateBusiness, authenticateBusinessOrApiKey, requireRole, requireScope } from '../middleware/auth';
+import {
+  apiKeyCreateValidation,
+  auditLogQueryValidation,
+  businessUpdateValidation,
+  counterDisplayCreateValidation,
+  flaggedActivityQueryValidation,
+  flagReviewValidation,
+  staffInviteValidation,
+  staffUpdateValidation
+} from '../utils/validation';
 
 const router = express.Router();
 
 // Business Profile Management
 router.get('/profile', authenticateBusiness, BusinessController.getProfile);
-router.put('/profile', authenticateBusiness, BusinessController.updateProfile);
+router.put('/profile', authenticateBusiness, requireRole('owner', 'manager'), businessUpdateValidation, BusinessController.updateProfile);
 
 // Business Analytics
-router.get('/analytics', authenticateBusiness, BusinessController.getAnalytics);
+router.get('/analytics', authenticateBusiness, requireRole('owner', 'manager'), BusinessController.getAnalytics);
+
+// Live Events (Server-Sent Events for the counter screen)
+router.get('/events', authenticateBusinessOrApiKey, requireScope('stamps:read'), EventController.stream);
+
+// Security Audit Log
+router.get('/audit-log', authenticateBusiness, requireRole('owner'), auditLogQueryValidation, BusinessController.getAuditLog);
+
+// Staff Management
+router.get('/staff', authenticateBusiness, requireRole('owner'), StaffController.listStaff);
+router.post('/staff', authenticateBusiness, requireRole('owner'), staffInviteValidation, StaffController.inviteStaff);
+router.put('/staff/:staffId', authenticateBusiness, requireRole('owner'), staffUpdateValidation, StaffController.updateStaff);
+router.delete('/staff/:staffId', authenticateBusiness, requireRole('owner'), StaffController.removeStaff);
+
+// API Keys (POS and server-to-server integrations)
+router.get('/api-keys', authenticateBusiness, requireRole('owner'), ApiKeyController.listKeys);
+router.post('/api-keys', authenticateBusiness, requireRole('owner'), apiKeyCreateValidation, ApiKeyController.createKey);
+router.delete('/api-keys/:keyId', authenticateBusiness, requireRole('owner'), ApiKeyController.revokeKey);
+
+// Counter Displays (always-on QR with rotating codes)
+router.get('/displays', authenticateBusiness, requireRole('owner', 'manager'), CounterDisplayController.listDisplays);
+router.post('/displays', authenticateBusiness, requireRole('owner', 'manager'), counterDisplayCreateValidation, CounterDisplayController.createDisplay);
+router.delete('/displays/:displayId', authenticateBusiness, requireRole('owner', 'manager'), CounterDisplayController.revokeDisplay);
+
+// Flagged Activity (stamp attempts blocked by the fraud rules)
+router.get('/flagged-activity', authenticateBusiness, requireRole('owner'), flaggedActivityQueryValidation, FraudController.listFlagged);
+router.post('/flagged-activity/:flagId/review', authenticateBusiness, requireRole('owner'), flagReviewValidation, FraudController.reviewFlagged);
 
 // Business Settings (we'll add these controllers later)
 // router.get('/settings', authenticateBusiness, BusinessController.getSettings);
@@ -2,6 +2,8 @@ import express from 'express';
 import authRoutes from './auth';
 import businessRoutes from './businesses';
 import customerRoutes from './customers';
+import programRoutes from './programs';
+import rewardRoutes from './rewards';
 import stampRoutes from './stamps';
 
 const router = express.Router();
@@ -20,6 +22,8 @@ router.get('/health', (req, res) => {
 router.use('/auth', authRoutes);
 router.use('/businesses', businessRoutes);
 router.use('/customers', customerRoutes);
+router.use('/programs', programRoutes);
+router.use('/rewards', rewardRoutes);
 router.use('/stamps', stampRoutes);
 
 export default router;
\ No newline at end of file
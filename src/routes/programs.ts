@@ -0,0 +1,18 @@
+import express from 'express';
+import { ProgramController } from '../controllers/programController';
+import { authenticateBusiness, authenticateBusinessOrApiKey, authenticateCustomer, requireRole, requireScope } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { programCreateValidation, programUpdateValidation } from '../utils/validation';
+
+const router = express.Router();
+
+// Customer Balances (customer app)
+router.get('/mine', authenticateCustomer, ProgramController.getMyPrograms);
+
+// Program Management
+router.get('/', authenticateBusinessOrApiKey, requireScope('stamps:read'), ProgramController.getPrograms);
+router.post('/', authenticateBusiness, requireRole('owner', 'manager'), programCreateValidation, idempotent, ProgramController.createProgram);
+router.put('/:programId', authenticateBusiness, requireRole('owner', 'manager'), programUpdateValidation, idempotent, ProgramController.updateProgram);
+router.delete('/:programId', authenticateBusiness, requireRole('owner', 'manager'), ProgramController.deactivateProgram);
+
+export default router;
@@ -1,13 +1,40 @@
 import express from 'express';
-// import { RewardController } from '../controllers/rewardController';
-import { authenticateBusiness } from '../middleware/auth';
+import { RewardController } from '../controllers/rewardController';
+import { authenticateBusiness, authenticateBusinessOrApiKey, authenticateCustomer, requireRole, requireScope } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import {
+  rewardQueryValidation,
+  rewardRedemptionValidation,
+  rewardRulesValidation,
+  rewardTierCreateValidation,
+  rewardTierUpdateValidation,
+  voucherIssueValidation,
+  voucherRedeemValidation
+} from '../utils/validation';
 
 const router = express.Router();
 
-// Reward Management (to be implemented later)
-// router.get('/', authenticateBusiness, RewardController.getRewards);
-// router.post('/redeem', authenticateBusiness, RewardController.redeemReward);
-// router.get('/rules', authenticateBusiness, RewardController.getRewardRules);
-// router.put('/rules', authenticateBusiness, RewardController.updateRewardRules);
+// Reward Management
+router.get('/', authenticateBusinessOrApiKey, requireScope('rewards:read'), rewardQueryValidation, RewardController.getRewards);
+router.post('/redeem', authenticateBusinessOrApiKey, requireScope('rewards:write'), rewardRedemptionValidation, idempotent, RewardController.redeemReward);
 
-export default router;
\ No newline at end of file
+// Customer Rewards (customer app)
+router.get('/mine', authenticateCustomer, rewardQueryValidation, RewardController.getMyRewards);
+router.post('/vouchers', authenticateCustomer, voucherIssueValidation, idempotent, RewardController.issueVoucher);
+
+// Vouchers (scanned or typed in at the counter)
+router.post('/vouchers/redeem', authenticateBusinessOrApiKey, requireScope('rewards:write'), voucherRedeemValidation, idempotent, RewardController.redeemVoucher);
+router.get('/vouchers/:code', authenticateBusinessOrApiKey, requireScope('rewards:read'), RewardController.getVoucher);
+router.post('/vouchers/:voucherId/cancel', authenticateBusiness, requireRole('owner', 'manager'), idempotent, RewardController.cancelVoucher);
+
+// Reward Rules
+router.get('/rules', authenticateBusiness, RewardController.getRewardRules);
+router.put('/rules', authenticateBusiness, requireRole('owner', 'manager'), rewardRulesValidation, idempotent, RewardController.updateRewardRules);
+
+// Reward Catalog (tiers customers choose from)
+router.get('/tiers', authenticateBusinessOrApiKey, requireScope('rewards:read'), RewardController.getRewardTiers);
+router.post('/tiers', authenticateBusiness, requireRole('owner', 'manager'), rewardTierCreateValidation, idempotent, RewardController.createRewardTier);
+router.put('/tiers/:tierId', authenticateBusiness, requireRole('owner', 'manager'), rewardTierUpdateValidation, idempotent, RewardController.updateRewardTier);
+router.delete('/tiers/:tierId', authenticateBusiness, requireRole('owner', 'manager'), RewardController.deactivateRewardTier);
+
+export default router;
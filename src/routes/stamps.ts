@@ -1,22 +1,30 @@
 import express from 'express';
 import { StampController } from '../controllers/stampController';
-import { authenticateBusiness } from '../middleware/auth';
+import { authenticateBusiness, authenticateBusinessOrApiKey, authenticateCustomer, requireRole, requireScope } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { displayClaimValidation, manualStampValidation, qrClaimValidation, qrGenerationValidation, stampHistoryQueryValidation, stampPreviewValidation, stampVoidValidation } from '../utils/validation';
 
 const router = express.Router();
 
 // QR Code Generation & Management
-router.post('/generate-qr', authenticateBusiness, StampController.generateQr);
-router.get('/qr-status/:qrId', authenticateBusiness, StampController.checkQrStatus);
+router.post('/generate-qr', authenticateBusinessOrApiKey, requireScope('stamps:write'), qrGenerationValidation, idempotent, StampController.generateQr);
+router.get('/qr-status/:qrId', authenticateBusinessOrApiKey, requireScope('stamps:read'), StampController.checkQrStatus);
+
+// QR Code Claiming (customer app)
+router.post('/claim', authenticateCustomer, qrClaimValidation, idempotent, StampController.claimQr);
+router.post('/claim-display', authenticateCustomer, displayClaimValidation, idempotent, StampController.claimDisplay);
 
 // Manual Stamp Management
-router.post('/grant-manual', authenticateBusiness, StampController.grantManual);
+router.post('/grant-manual', authenticateBusinessOrApiKey, requireScope('stamps:write'), manualStampValidation, idempotent, StampController.grantManual);
+router.post('/transactions/:transactionId/void', authenticateBusiness, requireRole('owner', 'manager'), stampVoidValidation, idempotent, StampController.voidTransaction);
 
-// Stamp Rules Management (we'll add these controllers later)
+// Stamp Rules Management (rules are edited through the business profile)
+router.post('/preview', authenticateBusinessOrApiKey, requireScope('stamps:read'), stampPreviewValidation, StampController.previewStamps);
 // router.get('/rules', authenticateBusiness, StampController.getStampRules);
 // router.put('/rules', authenticateBusiness, StampController.updateStampRules);
 
 // Stamp History & Reports
-// router.get('/history', authenticateBusiness, StampController.getStampHistory);
-// router.get('/transactions', authenticateBusiness, StampController.getTransactions);
+router.get('/history', authenticateCustomer, stampHistoryQueryValidation, StampController.getStampHistory);
+router.get('/transactions', authenticateBusinessOrApiKey, requireScope('stamps:read'), stampHistoryQueryValidation, StampController.getTransactions);
 
 export default router;
\ No newline at end of file
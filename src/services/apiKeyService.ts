@@ -0,0 +1,173 @@
+import { prisma } from '../app';
+import { AuditLogService } from './auditLogService';
+import { generateApiKey, hashToken, API_KEY_PREFIX } from '../utils/auth';
+import { logError } from '../utils/errorHandler';
+import { ApiKeyCreateData, ApiKeyScope, ClientContext } from '../types/auth';
+import { ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+
+// Don't write lastUsedAt on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+// Enough of the key to recognise it in a list, not enough to use it
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true
+};
+
+export interface AuthenticatedApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  business: {
+    id: string;
+    name: string;
+    email: string;
+    isVerified: boolean;
+  };
+}
+
+export class ApiKeyService {
+  /**
+   * List a business's API keys (never the keys themselves)
+   */
+  static async listKeys(businessId: string) {
+    try {
+      const keys = await prisma.apiKey.findMany({
+        where: { businessId },
+        orderBy: { createdAt: 'desc' },
+        select: apiKeySelect
+      });
+
+      const now = Date.now();
+      return keys.map(key => ({
+        ...key,
+        status: key.revokedAt ? 'revoked' : key.expiresAt && key.expiresAt.getTime() <= now ? 'expired' : 'active'
+      }));
+    } catch (error) {
+      console.error('❌ List API keys error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create a key - the plain key is only ever returned here
+   */
+  static async createKey(businessId: string, createData: ApiKeyCreateData, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      const key = generateApiKey();
+
+      const apiKey = await prisma.apiKey.create({
+        data: {
+          businessId,
+          name: createData.name.trim(),
+          prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+          keyHash: hashToken(key),
+          scopes: Array.from(new Set(createData.scopes)),
+          expiresAt: createData.expiresInDays
+            ? new Date(Date.now() + createData.expiresInDays * 24 * 60 * 60 * 1000)
+            : null
+        },
+        select: apiKeySelect
+      });
+
+      console.log(`🔑 API key created for business ${businessId}: ${apiKey.name} [${apiKey.scopes.join(', ')}]`);
+      await AuditLogService.record({
+        businessId,
+        action: 'api_key.created',
+        audit,
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        metadata: { name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes }
+      });
+
+      return { success: true, data: { ...apiKey, key } };
+    } catch (error) {
+      console.error('❌ Create API key error:', error);
+      return { success: false, error: 'Failed to create API key' };
+    }
+  }
+
+  /**
+   * Revoke a key so it stops working immediately
+   */
+  static async revokeKey(businessId: string, keyId: string, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      const revoked = await prisma.apiKey.updateMany({
+        where: { id: keyId, businessId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+
+      if (revoked.count === 0) {
+        return { success: false, error: 'API key not found', code: 'API_KEY_NOT_FOUND' };
+      }
+
+      console.log(`🔑 API key revoked for business ${businessId}: ${keyId}`);
+      await AuditLogService.record({ businessId, action: 'api_key.revoked', audit, targetType: 'api_key', targetId: keyId });
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Revoke API key error:', error);
+      return { success: false, error: 'Failed to revoke API key' };
+    }
+  }
+
+  /**
+   * Check that a key authenticated earlier is still usable (long-lived connections)
+   * @returns boolean - False if the key has been revoked or has expired since
+   */
+  static async isActive(keyId: string): Promise<boolean> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { id: keyId },
+      select: { revokedAt: true, expiresAt: true }
+    });
+
+    return !!apiKey && !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt.getTime() > Date.now());
+  }
+
+  /**
+   * Look up a presented key and record its use
+   * @returns The key and its business, or null if the key is unknown, revoked or expired
+   */
+  static async authenticate(key: string, context: ClientContext = {}): Promise<AuthenticatedApiKey | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashToken(key) },
+      include: { business: { select: { id: true, name: true, email: true, isVerified: true } } }
+    });
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      try {
+        await prisma.apiKey.update({
+          where: { id: apiKey.id },
+          data: { lastUsedAt: new Date(), lastUsedIp: context.ipAddress }
+        });
+      } catch (error) {
+        logError('Record API key use', error);
+      }
+    }
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      business: apiKey.business
+    };
+  }
+}
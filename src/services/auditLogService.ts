@@ -0,0 +1,112 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../app';
+import { logError } from '../utils/errorHandler';
+import { AuditActorType, AuditChanges, AuditEntry, AuditLogFilters } from '../types/audit';
+
+/**
+ * Compare two snapshots and keep only the fields that changed
+ * @param before - Values before the change
+ * @param after - Values after the change
+ * @returns AuditChanges - { field: { from, to } } for every changed field
+ */
+export const diffChanges = (before: Record<string, any>, after: Record<string, any>): AuditChanges => {
+  const changes: AuditChanges = {};
+
+  for (const field of Object.keys(after)) {
+    if (after[field] === undefined) continue;
+
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+};
+
+export class AuditLogService {
+  /**
+   * Persist an audit entry (never throws - auditing must not break the action itself)
+   */
+  static async record(entry: AuditEntry): Promise<void> {
+    try {
+      const { actor, ipAddress, userAgent } = entry.audit;
+
+      const actorType: AuditActorType = !actor
+        ? 'anonymous'
+        : actor.role === 'api_key'
+          ? 'api_key'
+          : actor.staffId
+            ? 'staff'
+            : 'owner';
+
+      await prisma.auditLog.create({
+        data: {
+          businessId: entry.businessId,
+          action: entry.action,
+          actorType,
+          actorStaffId: actor?.staffId ?? null,
+          actorApiKeyId: actor?.apiKeyId ?? null,
+          actorName: actor?.name ?? null,
+          ipAddress,
+          userAgent,
+          targetType: entry.targetType,
+          targetId: entry.targetId,
+          // Both only ever hold JSON-serialisable snapshots
+          changes: entry.changes as Prisma.InputJsonObject | undefined,
+          metadata: entry.metadata as Prisma.InputJsonObject | undefined
+        }
+      });
+    } catch (error) {
+      logError(`Record audit entry (${entry.action})`, error);
+    }
+  }
+
+  /**
+   * Page through a business's audit log, newest first
+   */
+  static async list(businessId: string, filters: AuditLogFilters) {
+    try {
+      const where: Prisma.AuditLogWhereInput = { businessId };
+
+      if (filters.action) {
+        where.action = filters.action.endsWith('.')
+          ? { startsWith: filters.action }
+          : filters.action;
+      }
+      if (filters.actorStaffId) where.actorStaffId = filters.actorStaffId;
+      if (filters.targetId) where.targetId = filters.targetId;
+      if (filters.from || filters.to) {
+        where.createdAt = {
+          ...(filters.from ? { gte: filters.from } : {}),
+          ...(filters.to ? { lte: filters.to } : {})
+        };
+      }
+
+      const [entries, total] = await Promise.all([
+        prisma.auditLog.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit
+        }),
+        prisma.auditLog.count({ where })
+      ]);
+
+      return {
+        entries,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          pages: Math.ceil(total / filters.limit)
+        }
+      };
+    } catch (error) {
+      logError('List audit log', error);
+      return null;
+    }
+  }
+}
@@ -1,13 +1,26 @@
 import { prisma } from '../app';
-import { hashPassword, comparePassword, generateBusinessToken } from '../utils/auth';
+import { MailService } from './mailService';
+import { SessionService } from './sessionService';
+import { LoginThrottleService } from './loginThrottleService';
+import { AuditLogService } from './auditLogService';
+import {
+  hashPassword,
+  comparePassword,
+  generatePasswordResetToken,
+  generateEmailVerificationToken,
+  hashToken,
+  verifyToken,
+  generateTwoFactorPendingToken
+} from '../utils/auth';
 import { handleError, isPrismaError, isPrismaErrorAlt,isPrismaUniqueConstraintError, logError } from '../utils/errorHandler';
-import { BusinessSignupData, AuthResult } from '../types/auth';
+import { ownerActor, staffActor } from '../utils/requestContext';
+import { BusinessSignupData, AuthResult, ClientContext } from '../types/auth';
 
 export class AuthService {
   /**
    * Create new business account
    */
-  static async createBusinessAccount(signupData: BusinessSignupData): Promise<AuthResult> {
+  static async createBusinessAccount(signupData: BusinessSignupData, context: ClientContext = {}): Promise<AuthResult> {
     try {
       const { 
         businessName, 
@@ -60,7 +73,17 @@ export class AuthService {
           rewardValue: 5.0,
           primaryColor: '#8b5cf6',
           slogan: 'Collect your stamp card!',
-          fontStyle: 'modern'
+          fontStyle: 'modern',
+
+          // The same reward as the first tier of the catalog
+          rewardTiers: {
+            create: { name: 'Free Coffee', stampCost: 10, value: 5.0, isDefault: true }
+          },
+
+          // The card stamps go on unless another program is picked
+          loyaltyPrograms: {
+            create: { name: 'Stamp Card', isDefault: true }
+          }
         },
         select: {
           id: true,
@@ -75,16 +98,26 @@ export class AuthService {
         }
       });
 
-      // Generate JWT token
-      const token = generateBusinessToken(business.id);
+      // Start a session and generate its access and refresh tokens
+      const session = await SessionService.createBusinessSession(business.id, context);
 
       console.log(`✅ New business signup: ${business.name} (${business.email})`);
+      await AuditLogService.record({
+        businessId: business.id,
+        action: 'auth.signup',
+        audit: { actor: ownerActor(business.name), ...context }
+      });
+
+      // A failed verification email shouldn't block signup - it can be resent later
+      await this.sendVerificationEmail(business.id);
 
       return {
         success: true,
         data: {
           business,
-          token
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresAt: session.expiresAt
         }
       };
     } catch (error) {
@@ -108,14 +141,32 @@ export class AuthService {
   /**
    * Authenticate business with email and password
    */
-  static async authenticateBusiness(email: string, password: string): Promise<AuthResult> {
+  static async authenticateBusiness(
+    email: string,
+    password: string,
+    context: ClientContext = {},
+    rememberMe: boolean = false
+  ): Promise<AuthResult> {
     try {
+      // Per-email and per-IP brute-force protection
+      const throttle = await LoginThrottleService.checkAllowed(email, context);
+      if (!throttle.allowed) {
+        return {
+          success: false,
+          error: throttle.error,
+          code: throttle.code,
+          retryAfter: throttle.retryAfter
+        };
+      }
+
       // Find business by email
       const business = await prisma.business.findUnique({
         where: { email: email.toLowerCase().trim() }
       });
 
       if (!business) {
+        // Unknown emails count too, so attackers can't tell them apart
+        await LoginThrottleService.recordFailure(email, context);
         return {
           success: false,
           error: 'Invalid email or password'
@@ -125,16 +176,46 @@ export class AuthService {
       // Verify password
       const isPasswordValid = await comparePassword(password, business.password);
       if (!isPasswordValid) {
+        await LoginThrottleService.recordFailure(email, context);
+        await AuditLogService.record({
+          businessId: business.id,
+          action: 'auth.signin_failed',
+          audit: { actor: null, ...context },
+          metadata: { reason: 'invalid_password' }
+        });
         return {
           success: false,
           error: 'Invalid email or password'
         };
       }
 
-      // Generate token
-      const token = generateBusinessToken(business.id);  //util
+      // Password alone isn't enough - hand back a pending token for the second step
+      if (business.twoFactorEnabled) {
+        console.log(`🔐 Business signin awaiting 2FA: ${business.email}`);
+
+        return {
+          success: true,
+          data: {
+            twoFactorRequired: true,
+            twoFactorToken: generateTwoFactorPendingToken(business.id, rememberMe)
+          }
+        };
+      }
+
+      await LoginThrottleService.recordSuccess(email);
+
+      // Start a session and generate its tokens
+      const session = await SessionService.createBusinessSession(business.id, context, rememberMe);
 
       console.log(`🔐 Business signin: ${business.name} (${business.email})`);
+      await AuditLogService.record({
+        businessId: business.id,
+        action: 'auth.signin',
+        audit: { actor: ownerActor(business.name), ...context },
+        targetType: 'session',
+        targetId: session.sessionId,
+        metadata: { rememberMe }
+      });
 
       return {
         success: true,
@@ -146,7 +227,9 @@ export class AuthService {
             phone: business.phone,
             isVerified: business.isVerified
           },
-          token
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresAt: session.expiresAt
         }
       };
     } catch (error) {
@@ -159,14 +242,24 @@ export class AuthService {
   }
 
   /**
-   * Refresh business authentication token
+   * Rotate a refresh token into a new access token + refresh token pair
    */
-  static async refreshBusinessToken(businessId: string): Promise<AuthResult> {
+  static async refreshBusinessToken(refreshToken: string, context: ClientContext = {}): Promise<AuthResult> {
     try {
+      const result = await SessionService.rotateRefreshToken(refreshToken, context);
+
+      if (!result.success || !result.session) {
+        return {
+          success: false,
+          error: result.error,
+          code: result.code
+        };
+      }
+
       // Verify business still exists
       const business = await prisma.business.findUnique({
-        where: { id: businessId },
-        select: { id: true, name: true, email: true, isVerified: true }
+        where: { id: result.session.businessId },
+        select: { id: true, name: true }
       });
 
       if (!business) {
@@ -176,14 +269,29 @@ export class AuthService {
         };
       }
 
-      // Generate new token
-      const token = generateBusinessToken(business.id);
+      const staff = result.session.staffId
+        ? await prisma.staffMember.findUnique({
+            where: { id: result.session.staffId },
+            select: { id: true, name: true, role: true }
+          })
+        : null;
 
       console.log(`🔄 Token refreshed for: ${business.name}`);
+      await AuditLogService.record({
+        businessId: business.id,
+        action: 'auth.token_refreshed',
+        audit: { actor: staff ? staffActor(staff) : ownerActor(business.name), ...context },
+        targetType: 'session',
+        targetId: result.session.sessionId
+      });
 
       return {
         success: true,
-        data: { token }
+        data: {
+          token: result.session.token,
+          refreshToken: result.session.refreshToken,
+          expiresAt: result.session.expiresAt
+        }
       };
     } catch (error) {
       console.error('❌ Refresh token error:', error);
@@ -193,4 +301,285 @@ export class AuthService {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Start a password reset - always succeeds so callers can't probe for accounts
+   */
+  static async requestPasswordReset(email: string, context: ClientContext = {}): Promise<AuthResult> {
+    try {
+      const business = await prisma.business.findUnique({
+        where: { email: email.toLowerCase().trim() },
+        select: { id: true, name: true, email: true }
+      });
+
+      if (business) {
+        const token = generatePasswordResetToken(business.id);
+
+        // Only the most recently issued token is accepted
+        await prisma.business.update({
+          where: { id: business.id },
+          data: { passwordResetTokenHash: hashToken(token) }
+        });
+
+        await MailService.sendPasswordReset(business.email, business.name, token);
+        console.log(`🔑 Password reset requested: ${business.email}`);
+        await AuditLogService.record({
+          businessId: business.id,
+          action: 'auth.password_reset_requested',
+          audit: { actor: null, ...context }
+        });
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Request password reset error:', error);
+      return {
+        success: false,
+        error: 'Failed to request password reset'
+      };
+    }
+  }
+
+  /**
+   * Complete a password reset with a single-use token
+   */
+  static async resetPassword(token: string, newPassword: string, context: ClientContext = {}): Promise<AuthResult> {
+    try {
+      let decoded: any;
+      try {
+        decoded = verifyToken(token, 'password_reset');
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Reset link is invalid or has expired'
+        };
+      }
+
+      if (decoded.type !== 'password_reset') {
+        return {
+          success: false,
+          error: 'Reset link is invalid or has expired'
+        };
+      }
+
+      const business = await prisma.business.findUnique({
+        where: { id: decoded.businessId },
+        select: { id: true, name: true, email: true, passwordResetTokenHash: true }
+      });
+
+      if (!business || business.passwordResetTokenHash !== hashToken(token)) {
+        return {
+          success: false,
+          error: 'Reset link is invalid or has already been used'
+        };
+      }
+
+      const hashedPassword = await hashPassword(newPassword);
+
+      // Consume the token and invalidate every token issued before now
+      const consumed = await prisma.business.updateMany({
+        where: { id: business.id, passwordResetTokenHash: business.passwordResetTokenHash },
+        data: {
+          password: hashedPassword,
+          passwordResetTokenHash: null,
+          passwordChangedAt: new Date()
+        }
+      });
+
+      if (consumed.count === 0) {
+        return {
+          success: false,
+          error: 'Reset link is invalid or has already been used'
+        };
+      }
+
+      // Whoever had the old password may still be signed in
+      await SessionService.revokeAllBusinessSessions(business.id);
+
+      await MailService.sendPasswordChanged(business.email, business.name);
+      console.log(`🔑 Password reset completed: ${business.email}`);
+      await AuditLogService.record({
+        businessId: business.id,
+        action: 'auth.password_reset',
+        audit: { actor: ownerActor(business.name), ...context }
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Reset password error:', error);
+      return {
+        success: false,
+        error: 'Failed to reset password'
+      };
+    }
+  }
+
+  /**
+   * Email a fresh verification link, replacing any outstanding one
+   */
+  static async sendVerificationEmail(businessId: string): Promise<AuthResult> {
+    try {
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { id: true, name: true, email: true, isVerified: true }
+      });
+
+      if (!business) {
+        return {
+          success: false,
+          error: 'Business account not found'
+        };
+      }
+
+      if (business.isVerified) {
+        return {
+          success: false,
+          error: 'Email address is already verified'
+        };
+      }
+
+      const token = generateEmailVerificationToken(business.id);
+
+      await prisma.business.update({
+        where: { id: business.id },
+        data: { verificationToken: hashToken(token) }
+      });
+
+      const sent = await MailService.sendEmailVerification(business.email, business.name, token);
+      if (!sent) {
+        return {
+          success: false,
+          error: 'Failed to send verification email'
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Send verification email error:', error);
+      return {
+        success: false,
+        error: 'Failed to send verification email'
+      };
+    }
+  }
+
+  /**
+   * Mark a business email as verified
+   */
+  static async verifyEmail(token: string, context: ClientContext = {}): Promise<AuthResult> {
+    try {
+      let decoded: any;
+      try {
+        decoded = verifyToken(token, 'email_verification');
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Verification link is invalid or has expired'
+        };
+      }
+
+      if (decoded.type !== 'email_verification') {
+        return {
+          success: false,
+          error: 'Verification link is invalid or has expired'
+        };
+      }
+
+      const verified = await prisma.business.updateMany({
+        where: { id: decoded.businessId, verificationToken: hashToken(token) },
+        data: { isVerified: true, verificationToken: null }
+      });
+
+      if (verified.count === 0) {
+        return {
+          success: false,
+          error: 'Verification link is invalid or has already been used'
+        };
+      }
+
+      console.log(`✉️  Email verified for business: ${decoded.businessId}`);
+      await AuditLogService.record({
+        businessId: decoded.businessId,
+        action: 'auth.email_verified',
+        audit: { actor: null, ...context }
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Verify email error:', error);
+      return {
+        success: false,
+        error: 'Failed to verify email'
+      };
+    }
+  }
+
+  /**
+   * Change password for a signed-in business, signing out every device
+   */
+  static async changePassword(
+    businessId: string,
+    currentPassword: string,
+    newPassword: string,
+    context: ClientContext = {}
+  ): Promise<AuthResult> {
+    try {
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { id: true, name: true, email: true, password: true }
+      });
+
+      if (!business) {
+        return {
+          success: false,
+          error: 'Business account not found'
+        };
+      }
+
+      const isPasswordValid = await comparePassword(currentPassword, business.password);
+      if (!isPasswordValid) {
+        return {
+          success: false,
+          error: 'Current password is incorrect'
+        };
+      }
+
+      await prisma.business.update({
+        where: { id: business.id },
+        data: {
+          password: await hashPassword(newPassword),
+          passwordResetTokenHash: null,
+          passwordChangedAt: new Date()
+        }
+      });
+
+      // Revoke every existing session, then keep the caller signed in with a fresh one
+      const revokedCount = await SessionService.revokeAllBusinessSessions(business.id);
+      const session = await SessionService.createBusinessSession(business.id, context);
+
+      await MailService.sendPasswordChanged(business.email, business.name);
+      console.log(`🔑 Password changed: ${business.email} (${revokedCount} sessions revoked)`);
+      await AuditLogService.record({
+        businessId: business.id,
+        action: 'auth.password_changed',
+        audit: { actor: ownerActor(business.name), ...context },
+        metadata: { sessionsRevoked: revokedCount }
+      });
+
+      return {
+        success: true,
+        data: {
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresAt: session.expiresAt
+        }
+      };
+    } catch (error) {
+      console.error('❌ Change password error:', error);
+      return {
+        success: false,
+        error: 'Failed to change password'
+      };
+    }
+  }
+}
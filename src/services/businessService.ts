@@ -1,5 +1,31 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../app';
+import { AuditLogService, diffChanges } from './auditLogService';
+import { RewardService } from './rewardService';
 import { BusinessProfile } from '../types/business';
+import { AuditContext } from '../types/audit';
+import { StampBonusRule } from '../types/stamps';
+import { bonusRulesToJson } from '../utils/stampRules';
+
+type BusinessProfileRow = Omit<BusinessProfile, 'stampBonusRules' | 'stats'> & {
+  stampBonusRules: Prisma.JsonValue;
+  _count: { memberships: number; stampTransactions: number; rewards: number };
+};
+
+/**
+ * A business row selected with its member, stamp and reward counts, as a profile
+ */
+const toBusinessProfile = (business: BusinessProfileRow): BusinessProfile => {
+  return {
+    ...business,
+    stampBonusRules: business.stampBonusRules as StampBonusRule[] | null,
+    stats: {
+      totalCustomers: business._count.memberships,
+      totalStampTransactions: business._count.stampTransactions,
+      totalRewards: business._count.rewards
+    }
+  };
+};
 
 export class BusinessService {
   /**
@@ -29,7 +55,14 @@ export class BusinessService {
           // Business settings
           stampsPerVisit: true,
           minSpendForStamp: true,
+          spendPerStamp: true,
+          stampBonusRules: true,
           maxStampsPerVisit: true,
+          displayClaimCooldownMinutes: true,
+          minMinutesBetweenVisits: true,
+          maxDailyStampsPerCustomer: true,
+          maxDailyStampsPerStaff: true,
+          enforceBusinessHours: true,
           stampsForReward: true,
           rewardType: true,
           rewardValue: true,
@@ -42,7 +75,7 @@ export class BusinessService {
           // Stats
           _count: {
             select: {
-              customers: true,
+              memberships: true,
               stampTransactions: true,
               rewards: true
             }
@@ -52,14 +85,7 @@ export class BusinessService {
 
       if (!business) return null;
 
-      return {
-        ...business,
-        stats: {
-          totalCustomers: business._count.customers,
-          totalStampTransactions: business._count.stampTransactions,
-          totalRewards: business._count.rewards
-        }
-      };
+      return toBusinessProfile(business);
     } catch (error) {
       console.error('❌ Get business profile error:', error);
       return null;
@@ -70,34 +96,50 @@ export class BusinessService {
    */
  static async updateBusinessProfile(
   businessId: string, 
-  updateData: Partial<BusinessProfile>
+  updateData: Partial<BusinessProfile>,
+  audit: AuditContext
 ): Promise<BusinessProfile | null> {
   try {
+    const data = {
+      name: updateData.name,
+      phone: updateData.phone,
+      website: updateData.website,
+      description: updateData.description,
+      address: updateData.address,
+      city: updateData.city,
+      state: updateData.state,
+      zipCode: updateData.zipCode,
+      
+      // Settings
+      stampsPerVisit: updateData.stampsPerVisit,
+      minSpendForStamp: updateData.minSpendForStamp,
+      spendPerStamp: updateData.spendPerStamp,
+      stampBonusRules: updateData.stampBonusRules,
+      maxStampsPerVisit: updateData.maxStampsPerVisit,
+      displayClaimCooldownMinutes: updateData.displayClaimCooldownMinutes,
+      minMinutesBetweenVisits: updateData.minMinutesBetweenVisits,
+      maxDailyStampsPerCustomer: updateData.maxDailyStampsPerCustomer,
+      maxDailyStampsPerStaff: updateData.maxDailyStampsPerStaff,
+      enforceBusinessHours: updateData.enforceBusinessHours,
+      stampsForReward: updateData.stampsForReward,
+      rewardType: updateData.rewardType,
+      rewardValue: updateData.rewardValue,
+      
+      // Branding
+      primaryColor: updateData.primaryColor,
+      slogan: updateData.slogan,
+      fontStyle: updateData.fontStyle
+    };
+
+    // Snapshot the fields being changed so the audit log can show before/after
+    const before = await prisma.business.findUnique({
+      where: { id: businessId },
+      select: Object.keys(data).reduce((select, field) => ({ ...select, [field]: true }), {})
+    });
+
     const business = await prisma.business.update({
       where: { id: businessId },
-      data: {
-        name: updateData.name,
-        phone: updateData.phone,
-        website: updateData.website,
-        description: updateData.description,
-        address: updateData.address,
-        city: updateData.city,
-        state: updateData.state,
-        zipCode: updateData.zipCode,
-        
-        // Settings
-        stampsPerVisit: updateData.stampsPerVisit,
-        minSpendForStamp: updateData.minSpendForStamp,
-        maxStampsPerVisit: updateData.maxStampsPerVisit,
-        stampsForReward: updateData.stampsForReward,
-        rewardType: updateData.rewardType,
-        rewardValue: updateData.rewardValue,
-        
-        // Branding
-        primaryColor: updateData.primaryColor,
-        slogan: updateData.slogan,
-        fontStyle: updateData.fontStyle
-      },
+      data: { ...data, stampBonusRules: bonusRulesToJson(data.stampBonusRules) },
       select: {
         id: true,
         name: true,
@@ -119,7 +161,14 @@ export class BusinessService {
         // Business settings
         stampsPerVisit: true,
         minSpendForStamp: true,
+        spendPerStamp: true,
+        stampBonusRules: true,
         maxStampsPerVisit: true,
+        displayClaimCooldownMinutes: true,
+        minMinutesBetweenVisits: true,
+        maxDailyStampsPerCustomer: true,
+        maxDailyStampsPerStaff: true,
+        enforceBusinessHours: true,
         stampsForReward: true,
         rewardType: true,
         rewardValue: true,
@@ -132,7 +181,7 @@ export class BusinessService {
         // Stats
         _count: {
           select: {
-            customers: true,
+            memberships: true,
             stampTransactions: true,
             rewards: true
           }
@@ -140,14 +189,24 @@ export class BusinessService {
       }
     });
 
-    return {
-      ...business,
-      stats: {
-        totalCustomers: business._count.customers,
-        totalStampTransactions: business._count.stampTransactions,
-        totalRewards: business._count.rewards
-      }
-    };
+    // The single-reward fields are the default tier of the reward catalog
+    if (data.stampsForReward !== undefined || data.rewardType !== undefined || data.rewardValue !== undefined) {
+      await RewardService.syncDefaultTier(prisma, businessId);
+    }
+
+    const changes = diffChanges(before || {}, data);
+    if (Object.keys(changes).length > 0) {
+      await AuditLogService.record({
+        businessId,
+        action: 'business.profile_updated',
+        audit,
+        targetType: 'business',
+        targetId: businessId,
+        changes
+      });
+    }
+
+    return toBusinessProfile(business);
   } catch (error) {
     console.error('❌ Update business profile error:', error);
     return null;
@@ -175,8 +234,8 @@ static async getBusinessAnalytics(businessId: string) {
       rewardsThisMonth,
       recentTransactions
     ] = await Promise.all([
-      prisma.customer.count({ where: { businessId } }),
-      prisma.customer.count({ 
+      prisma.customerMembership.count({ where: { businessId } }),
+      prisma.customerMembership.count({ 
         where: { 
           businessId, 
           createdAt: { gte: startOfWeek } 
@@ -216,7 +275,7 @@ static async getBusinessAnalytics(businessId: string) {
     ]);
 
     // Calculate retention rate
-    const weeklyActiveUsers = await prisma.customer.count({
+    const weeklyActiveUsers = await prisma.customerMembership.count({
       where: {
         businessId,
         lastVisit: { gte: startOfWeek }
@@ -0,0 +1,135 @@
+import { prisma } from '../app';
+import { AuditLogService } from './auditLogService';
+import { MailService } from './mailService';
+import { ProgramService } from './programService';
+import { generateTotpSecret } from '../utils/totp';
+import { ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+import { CounterDisplayCreateData } from '../types/stamps';
+
+// Codes shown on a display; the device computes TOTP(secret, rotationSeconds) with these digits
+export const DISPLAY_CODE_DIGITS = 6;
+
+const counterDisplaySelect = {
+  id: true,
+  name: true,
+  rotationSeconds: true,
+  stampsValue: true,
+  programId: true,
+  lastClaimAt: true,
+  revokedAt: true,
+  createdAt: true
+};
+
+export class CounterDisplayService {
+  /**
+   * List a business's counter displays (never their secrets)
+   */
+  static async listDisplays(businessId: string) {
+    try {
+      const displays = await prisma.counterDisplay.findMany({
+        where: { businessId },
+        orderBy: { createdAt: 'desc' },
+        select: counterDisplaySelect
+      });
+
+      return displays.map(display => ({
+        ...display,
+        status: display.revokedAt ? 'revoked' : 'active'
+      }));
+    } catch (error) {
+      console.error('❌ List counter displays error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Register a display device - the secret is only ever returned here
+   */
+  static async createDisplay(
+    businessId: string,
+    createData: CounterDisplayCreateData,
+    audit: AuditContext
+  ): Promise<ServiceResult> {
+    try {
+      const program = await ProgramService.resolve(prisma, businessId, createData.programId);
+
+      if (!program) {
+        return { success: false, error: 'Loyalty program not found', code: 'PROGRAM_NOT_FOUND' };
+      }
+
+      const secret = generateTotpSecret();
+
+      const display = await prisma.counterDisplay.create({
+        data: {
+          businessId,
+          name: createData.name.trim(),
+          secret,
+          rotationSeconds: createData.rotationSeconds ?? 30,
+          stampsValue: createData.stampsValue ?? null,
+          programId: program.id
+        },
+        select: counterDisplaySelect
+      });
+
+      console.log(`📺 Counter display created for business ${businessId}: ${display.name}`);
+      await AuditLogService.record({
+        businessId,
+        action: 'display.created',
+        audit,
+        targetType: 'counter_display',
+        targetId: display.id,
+        metadata: {
+          name: display.name,
+          rotationSeconds: display.rotationSeconds,
+          stampsValue: display.stampsValue,
+          programId: display.programId
+        }
+      });
+
+      return {
+        success: true,
+        data: {
+          ...display,
+          secret,
+          digits: DISPLAY_CODE_DIGITS,
+          // The device shows this URL with &code=<current code> appended
+          claimUrl: MailService.frontendLink('/claim', { display: display.id })
+        }
+      };
+    } catch (error) {
+      console.error('❌ Create counter display error:', error);
+      return { success: false, error: 'Failed to create counter display' };
+    }
+  }
+
+  /**
+   * Revoke a display so its codes stop working immediately
+   */
+  static async revokeDisplay(businessId: string, displayId: string, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      const revoked = await prisma.counterDisplay.updateMany({
+        where: { id: displayId, businessId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+
+      if (revoked.count === 0) {
+        return { success: false, error: 'Counter display not found', code: 'DISPLAY_NOT_FOUND' };
+      }
+
+      console.log(`📺 Counter display revoked for business ${businessId}: ${displayId}`);
+      await AuditLogService.record({
+        businessId,
+        action: 'display.revoked',
+        audit,
+        targetType: 'counter_display',
+        targetId: displayId
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Revoke counter display error:', error);
+      return { success: false, error: 'Failed to revoke counter display' };
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import { prisma } from '../app';
+import { SmsService } from './smsService';
+import { SessionService } from './sessionService';
+import { MembershipService } from './membershipService';
+import { generateOtpCode, hashOtp, compareOtp, normalizePhone } from '../utils/auth';
+import { isPrismaUniqueConstraintError } from '../utils/errorHandler';
+import { CustomerOtpRequestData, CustomerAuthResult, ClientContext } from '../types/auth';
+
+const OTP_TTL_MS = 5 * 60 * 1000;        // Codes are valid for 5 minutes
+const OTP_RESEND_INTERVAL_MS = 60 * 1000; // One code per phone per minute
+const OTP_MAX_ATTEMPTS = 5;               // Wrong guesses before a new code is required
+
+export class CustomerAuthService {
+  /**
+   * Send a one-time code for signing in to a business, creating the customer on first contact
+   * The customer joins the business once the code is verified
+   */
+  static async requestOtp(requestData: CustomerOtpRequestData): Promise<CustomerAuthResult> {
+    try {
+      const phone = normalizePhone(requestData.phone);
+      const { businessId, firstName, lastName, email } = requestData;
+
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { id: true, name: true }
+      });
+
+      if (!business) {
+        return {
+          success: false,
+          error: 'Business not found',
+          code: 'BUSINESS_NOT_FOUND'
+        };
+      }
+
+      const existingCustomer = await prisma.customer.findUnique({
+        where: { phone }
+      });
+
+      const now = new Date();
+      const otpCode = generateOtpCode();
+      const expiresAt = new Date(now.getTime() + OTP_TTL_MS);
+      const otpFields = {
+        otpHash: hashOtp(phone, otpCode),
+        otpExpiresAt: expiresAt,
+        otpAttempts: 0,
+        otpBusinessId: businessId,
+        // Held until the code is verified, so nobody can attach details to a phone they don't own
+        otpFirstName: firstName?.trim() || null,
+        otpLastName: lastName?.trim() || null,
+        otpEmail: email?.trim() || null,
+        lastOtpSent: now
+      };
+
+      // Throttle resends based on the last time a code went out (a concurrent request may just have sent one)
+      const throttled = (lastOtpSent: Date | null) => {
+        const elapsed = lastOtpSent ? now.getTime() - lastOtpSent.getTime() : 0;
+        return {
+          success: false,
+          error: 'Please wait before requesting another code',
+          code: 'OTP_THROTTLED',
+          retryAfter: Math.ceil((elapsed < OTP_RESEND_INTERVAL_MS ? OTP_RESEND_INTERVAL_MS - elapsed : OTP_RESEND_INTERVAL_MS) / 1000)
+        };
+      };
+
+      if (existingCustomer) {
+        // Conditional, so of two concurrent requests only one sends a code
+        const { count } = await prisma.customer.updateMany({
+          where: {
+            id: existingCustomer.id,
+            OR: [
+              { lastOtpSent: null },
+              { lastOtpSent: { lt: new Date(now.getTime() - OTP_RESEND_INTERVAL_MS) } }
+            ]
+          },
+          data: otpFields
+        });
+
+        if (count !== 1) {
+          return throttled(existingCustomer.lastOtpSent);
+        }
+      } else {
+        try {
+          await prisma.customer.create({
+            data: { ...otpFields, phone }
+          });
+        } catch (error) {
+          // Another request created the customer and sent its code first
+          if (isPrismaUniqueConstraintError(error)) {
+            return throttled(null);
+          }
+          throw error;
+        }
+      }
+
+      const sent = await SmsService.send(
+        phone,
+        `Your ${business.name} verification code is ${otpCode}. It expires in ${OTP_TTL_MS / 60000} minutes.`
+      );
+
+      if (!sent) {
+        return {
+          success: false,
+          error: 'Failed to send verification code',
+          code: 'SMS_FAILED'
+        };
+      }
+
+      return {
+        success: true,
+        data: { phone, expiresAt }
+      };
+    } catch (error) {
+      console.error('❌ Request OTP error:', error);
+      return {
+        success: false,
+        error: 'Failed to send verification code'
+      };
+    }
+  }
+
+  /**
+   * Check a one-time code, make the customer a member of the business it was sent for and issue a customer token
+   */
+  static async verifyOtp(rawPhone: string, otpCode: string, context: ClientContext = {}): Promise<CustomerAuthResult> {
+    try {
+      const phone = normalizePhone(rawPhone);
+
+      const customer = await prisma.customer.findUnique({
+        where: { phone }
+      });
+
+      if (!customer || !customer.otpHash || !customer.otpExpiresAt || !customer.otpBusinessId) {
+        return {
+          success: false,
+          error: 'No verification code has been requested for this phone number',
+          code: 'OTP_NOT_REQUESTED'
+        };
+      }
+
+      if (customer.otpExpiresAt.getTime() < Date.now()) {
+        return {
+          success: false,
+          error: 'Verification code has expired. Please request a new one.',
+          code: 'OTP_EXPIRED'
+        };
+      }
+
+      if (customer.otpAttempts >= OTP_MAX_ATTEMPTS) {
+        return {
+          success: false,
+          error: 'Too many incorrect attempts. Please request a new code.',
+          code: 'OTP_ATTEMPTS_EXCEEDED'
+        };
+      }
+
+      if (!compareOtp(phone, otpCode, customer.otpHash)) {
+        await prisma.customer.update({
+          where: { id: customer.id },
+          data: { otpAttempts: { increment: 1 } }
+        });
+
+        return {
+          success: false,
+          error: 'Invalid verification code',
+          code: 'INVALID_OTP'
+        };
+      }
+
+      const businessId = customer.otpBusinessId;
+
+      // A customer from before memberships existed keeps the stamps of the business their row belonged to
+      if (customer.legacyBusinessId) {
+        await MembershipService.adoptLegacyCustomer(customer.id);
+      }
+
+      // Codes are single-use
+      const { verifiedCustomer, membership } = await prisma.$transaction(async tx => ({
+        verifiedCustomer: await tx.customer.update({
+          where: { id: customer.id },
+          data: {
+            isVerified: true,
+            // Only fill in profile details the customer hasn't given us yet
+            firstName: customer.firstName ?? customer.otpFirstName,
+            lastName: customer.lastName ?? customer.otpLastName,
+            email: customer.email ?? customer.otpEmail,
+            otpHash: null,
+            otpExpiresAt: null,
+            otpAttempts: 0,
+            otpBusinessId: null,
+            otpFirstName: null,
+            otpLastName: null,
+            otpEmail: null
+          },
+          select: {
+            id: true,
+            phone: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            isVerified: true
+          }
+        }),
+        membership: await MembershipService.join(tx, customer.id, businessId)
+      }));
+
+      const { token } = await SessionService.createCustomerSession(
+        verifiedCustomer.id,
+        businessId,
+        context
+      );
+
+      console.log(`📱 Customer signin: ${verifiedCustomer.phone} (business ${businessId})`);
+
+      return {
+        success: true,
+        data: {
+          customer: {
+            ...verifiedCustomer,
+            businessId,
+            totalStamps: membership.totalStamps,
+            totalRewards: membership.totalRewards
+          },
+          token
+        }
+      };
+    } catch (error) {
+      console.error('❌ Verify OTP error:', error);
+      return {
+        success: false,
+        error: 'Verification failed'
+      };
+    }
+  }
+
+  /**
+   * Get the signed-in customer's profile with their loyalty stats at the business they signed in to,
+   * plus every other business they're a member of
+   */
+  static async getCustomerProfile(customerId: string, businessId: string) {
+    try {
+      const [customer, memberships] = await Promise.all([
+        prisma.customer.findUnique({
+          where: { id: customerId },
+          select: {
+            id: true,
+            phone: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            isVerified: true,
+            createdAt: true
+          }
+        }),
+        MembershipService.listForCustomer(customerId)
+      ]);
+
+      const current = memberships?.find(membership => membership.business.id === businessId);
+
+      if (!customer || !memberships || !current) {
+        return null;
+      }
+
+      return {
+        ...customer,
+        totalStamps: current.totalStamps,
+        totalRewards: current.totalRewards,
+        totalVisits: current.totalVisits,
+        lastVisit: current.lastVisit,
+        joinedAt: current.createdAt,
+        business: current.business,
+        memberships
+      };
+    } catch (error) {
+      console.error('❌ Get customer profile error:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { logError } from '../utils/errorHandler';
+import { BusinessEvent, BusinessEventType, EventTransport } from '../types/events';
+
+/**
+ * Events stay within this process - fine for a single instance
+ */
+export class InMemoryEventTransport implements EventTransport {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream; there's no meaningful limit
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, message: string): void {
+    this.emitter.emit(channel, message);
+  }
+
+  subscribe(channel: string, onMessage: (message: string) => void): () => void {
+    this.emitter.on(channel, onMessage);
+    return () => {
+      this.emitter.off(channel, onMessage);
+    };
+  }
+}
+
+const businessChannel = (businessId: string): string => `business:${businessId}`;
+
+export class EventService {
+  private static transport: EventTransport = new InMemoryEventTransport();
+
+  /**
+   * Swap the transport, e.g. for one backed by Postgres LISTEN/NOTIFY
+   * Call once at startup, before anything subscribes
+   */
+  static useTransport(transport: EventTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Publish an event to everyone watching a business (never throws - events are best effort)
+   */
+  static async publish(businessId: string, type: BusinessEventType, data: Record<string, unknown> = {}): Promise<void> {
+    const event: BusinessEvent = {
+      id: crypto.randomBytes(12).toString('hex'),
+      type,
+      businessId,
+      occurredAt: new Date().toISOString(),
+      data
+    };
+
+    try {
+      await this.transport.publish(businessChannel(businessId), JSON.stringify(event));
+    } catch (error) {
+      logError(`Publish ${type} event`, error);
+    }
+  }
+
+  /**
+   * Receive a business's events as they happen
+   * @returns Function that stops the subscription
+   */
+  static subscribe(businessId: string, listener: (event: BusinessEvent) => void): () => void {
+    return this.transport.subscribe(businessChannel(businessId), message => {
+      try {
+        listener(JSON.parse(message));
+      } catch (error) {
+        logError('Deliver business event', error);
+      }
+    });
+  }
+}
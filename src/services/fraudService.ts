@@ -0,0 +1,476 @@
+import { Customer, Prisma } from '@prisma/client';
+import { prisma } from '../app';
+import { AuditLogService } from './auditLogService';
+import { EventService } from './eventService';
+import { LedgerService, VISIT_SOURCES } from './ledgerService';
+import { MembershipService } from './membershipService';
+import { ProgramService } from './programService';
+import { getLocalTime, isWithinTimeWindow, LocalTime } from '../utils/stampRules';
+import { isPrismaUniqueConstraintError } from '../utils/errorHandler';
+import { lockUntilCommit } from '../utils/transaction';
+import { ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+import {
+  FlaggedActivityDetails,
+  FlaggedActivityFilters,
+  FlagReviewData,
+  FraudCheckResult,
+  FraudRule,
+  StampAttempt
+} from '../types/stamps';
+import { DbClient } from '../types/database';
+
+// Error code returned to whoever tried to issue or claim the stamps
+export const FRAUD_RULE_CODES: Record<FraudRule, string> = {
+  min_visit_interval: 'VISIT_TOO_SOON',
+  customer_daily_cap: 'CUSTOMER_DAILY_CAP',
+  staff_daily_cap: 'STAFF_DAILY_CAP',
+  outside_business_hours: 'OUTSIDE_BUSINESS_HOURS'
+};
+
+// Rolls back an approval whose QR code was claimed in the meantime
+class QrAlreadyClaimedError extends Error {}
+
+/**
+ * Start of the business's current calendar day
+ */
+const getStartOfLocalDay = (now: Date, local: LocalTime): Date => {
+  return new Date(now.getTime() - local.minutes * 60 * 1000 - now.getSeconds() * 1000 - now.getMilliseconds());
+};
+
+export class FraudService {
+  /**
+   * Whether the business is open at a given local time
+   * Special dates override the weekly hours; with no hours configured the business counts as open
+   */
+  private static async isOpen(client: DbClient, businessId: string, local: LocalTime): Promise<boolean> {
+    const hours = await client.businessHours.findMany({ where: { businessId } });
+
+    if (hours.length === 0) return true;
+
+    const today =
+      hours.find(entry => entry.specialDate && entry.specialDate.toISOString().substring(0, 10) === local.date) ||
+      hours.find(entry => !entry.specialDate && entry.dayOfWeek === local.day);
+
+    if (!today) return true;
+    if (today.isHoliday || !today.isOpen) return false;
+    if (!today.openTime || !today.closeTime) return true;
+
+    return isWithinTimeWindow(local.minutes, today.openTime, today.closeTime);
+  }
+
+  /**
+   * Stamps issued by the matching transactions, less what has since been voided
+   * Both daily caps count this way, so voided stamps no longer count against the customer or the staff member who issued them
+   */
+  private static async countStampsIssued(client: DbClient, where: Prisma.StampTransactionWhereInput): Promise<number> {
+    const issued = await client.stampTransaction.aggregate({
+      where: { ...where, reversalOfId: null },
+      _sum: { stampsAwarded: true, reversedStamps: true }
+    });
+
+    return (issued._sum.stampsAwarded || 0) - (issued._sum.reversedStamps || 0);
+  }
+
+  /**
+   * Run the business's fraud rules against an attempt to issue stamps
+   * Call inside the Serializable transaction that issues the stamps, so concurrent attempts
+   * can't all pass the interval and daily caps
+   * @param client - Transaction client
+   */
+  static async check(client: DbClient, attempt: StampAttempt): Promise<FraudCheckResult> {
+    const business = await client.business.findUnique({
+      where: { id: attempt.businessId },
+      select: {
+        timezone: true,
+        minMinutesBetweenVisits: true,
+        maxDailyStampsPerCustomer: true,
+        maxDailyStampsPerStaff: true,
+        enforceBusinessHours: true
+      }
+    });
+
+    if (!business) return { allowed: true };
+
+    const now = new Date();
+    const local = getLocalTime(now, business.timezone);
+    const startOfDay = getStartOfLocalDay(now, local);
+
+    if (business.enforceBusinessHours && !(await this.isOpen(client, attempt.businessId, local))) {
+      return {
+        allowed: false,
+        rule: 'outside_business_hours',
+        error: 'Stamps can only be collected during business hours',
+        details: { localTime: `${local.date} ${Math.floor(local.minutes / 60)}:${String(local.minutes % 60).padStart(2, '0')}` }
+      };
+    }
+
+    if (attempt.customerId && business.minMinutesBetweenVisits > 0) {
+      const lastVisit = await client.stampTransaction.findFirst({
+        where: {
+          customerId: attempt.customerId,
+          businessId: attempt.businessId,
+          source: { in: VISIT_SOURCES },
+          reversalOfId: null,
+          voidedAt: null,
+          createdAt: { gt: new Date(now.getTime() - business.minMinutesBetweenVisits * 60 * 1000) }
+        },
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true }
+      });
+
+      if (lastVisit) {
+        return {
+          allowed: false,
+          rule: 'min_visit_interval',
+          error: `Visits must be at least ${business.minMinutesBetweenVisits} minutes apart`,
+          details: { minMinutesBetweenVisits: business.minMinutesBetweenVisits, lastVisitAt: lastVisit.createdAt }
+        };
+      }
+    }
+
+    if (attempt.customerId && business.maxDailyStampsPerCustomer) {
+      const stampsToday = await this.countStampsIssued(client, {
+        customerId: attempt.customerId,
+        businessId: attempt.businessId,
+        createdAt: { gte: startOfDay }
+      });
+
+      if (stampsToday + attempt.stamps > business.maxDailyStampsPerCustomer) {
+        return {
+          allowed: false,
+          rule: 'customer_daily_cap',
+          error: `A customer can collect at most ${business.maxDailyStampsPerCustomer} stamps a day`,
+          details: { limit: business.maxDailyStampsPerCustomer, stampsToday }
+        };
+      }
+    }
+
+    if (attempt.staffId && business.maxDailyStampsPerStaff) {
+      const stampsToday = await this.countStampsIssued(client, {
+        staffId: attempt.staffId,
+        businessId: attempt.businessId,
+        createdAt: { gte: startOfDay }
+      });
+
+      if (stampsToday + attempt.stamps > business.maxDailyStampsPerStaff) {
+        return {
+          allowed: false,
+          rule: 'staff_daily_cap',
+          error: `A staff member can issue at most ${business.maxDailyStampsPerStaff} stamps a day`,
+          details: { limit: business.maxDailyStampsPerStaff, stampsToday }
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Record an attempt that check() blocked, for review
+   * A retry of an attempt that is already awaiting review isn't recorded again
+   * Call after the issuing transaction has rolled back, so the flag is kept
+   * @returns ServiceResult - The rule's error code
+   */
+  static async flag(attempt: StampAttempt, result: FraudCheckResult, audit: AuditContext): Promise<ServiceResult> {
+    if (!result.rule) {
+      return { success: false, error: result.error };
+    }
+
+    const rule = result.rule;
+    const blocked = { success: false, error: result.error, code: FRAUD_RULE_CODES[rule] };
+    const involved = {
+      businessId: attempt.businessId,
+      rule,
+      customerId: attempt.customerId ?? null,
+      staffId: attempt.staffId ?? null,
+      qrId: attempt.qrId ?? null,
+      counterDisplayId: attempt.counterDisplayId ?? null
+    };
+    const details: FlaggedActivityDetails = {
+      ...result.details,
+      programId: attempt.programId,
+      customerPhone: attempt.customerPhone,
+      purchaseAmount: attempt.purchaseAmount,
+      notes: attempt.notes
+    };
+
+    const flag = await prisma.$transaction(async tx => {
+      await lockUntilCommit(tx, 'flagged_activity', Object.values(involved).join(':'));
+
+      const open = await tx.flaggedActivity.findFirst({
+        where: {
+          ...involved,
+          status: 'pending',
+          // A manual grant to a new phone number has no customer yet
+          ...(!involved.customerId && attempt.customerPhone
+            ? { details: { path: ['customerPhone'], equals: attempt.customerPhone } }
+            : {})
+        },
+        select: { id: true }
+      });
+
+      if (open) return null;
+
+      return tx.flaggedActivity.create({
+        data: {
+          ...involved,
+          source: attempt.source,
+          stamps: attempt.stamps,
+          details: details as Prisma.InputJsonObject
+        }
+      });
+    });
+
+    if (!flag) {
+      return blocked;
+    }
+
+    console.log(`🚩 Stamps blocked (${rule}) for business ${attempt.businessId}: ${attempt.stamps} via ${attempt.source}`);
+    await AuditLogService.record({
+      businessId: attempt.businessId,
+      action: 'stamps.blocked',
+      audit,
+      targetType: 'flagged_activity',
+      targetId: flag.id,
+      metadata: { rule, source: attempt.source, stamps: attempt.stamps, customerId: attempt.customerId }
+    });
+    await EventService.publish(attempt.businessId, 'activity.flagged', {
+      flagId: flag.id,
+      rule,
+      source: attempt.source,
+      stamps: attempt.stamps,
+      customerId: attempt.customerId ?? null
+    });
+
+    return blocked;
+  }
+
+  /**
+   * Flagged activity of a business, newest first, with customer names
+   */
+  static async listFlagged(businessId: string, filters: FlaggedActivityFilters) {
+    try {
+      const where: Prisma.FlaggedActivityWhereInput = { businessId };
+      if (filters.status) where.status = filters.status;
+
+      const [flags, total] = await Promise.all([
+        prisma.flaggedActivity.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit
+        }),
+        prisma.flaggedActivity.count({ where })
+      ]);
+
+      const customerIds = Array.from(new Set(flags.map(flag => flag.customerId).filter((customerId): customerId is string => !!customerId)));
+      const customers = customerIds.length > 0
+        ? await prisma.customer.findMany({
+          where: { id: { in: customerIds } },
+          select: { id: true, firstName: true, lastName: true, phone: true }
+        })
+        : [];
+
+      return {
+        flags: flags.map(flag => ({
+          ...flag,
+          customer: customers.find(customer => customer.id === flag.customerId) || null
+        })),
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          pages: Math.ceil(total / filters.limit)
+        }
+      };
+    } catch (error) {
+      console.error('❌ List flagged activity error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Approve (issue the blocked stamps after all) or dismiss a flagged attempt
+   */
+  static async review(
+    businessId: string,
+    flagId: string,
+    reviewData: FlagReviewData,
+    audit: AuditContext
+  ): Promise<ServiceResult> {
+    try {
+      const flag = await prisma.flaggedActivity.findFirst({ where: { id: flagId, businessId } });
+
+      if (!flag) {
+        return { success: false, error: 'Flagged activity not found', code: 'FLAG_NOT_FOUND' };
+      }
+
+      if (flag.status !== 'pending') {
+        return { success: false, error: 'This activity has already been reviewed', code: 'FLAG_ALREADY_REVIEWED' };
+      }
+
+      const reviewed = {
+        reviewedAt: new Date(),
+        reviewedBy: audit.actor?.name ?? null,
+        reviewNote: reviewData.note?.trim() || null
+      };
+
+      if (reviewData.decision === 'dismiss') {
+        const dismissed = await prisma.flaggedActivity.updateMany({
+          where: { id: flag.id, status: 'pending' },
+          data: { status: 'dismissed', ...reviewed }
+        });
+
+        if (dismissed.count === 0) {
+          return { success: false, error: 'This activity has already been reviewed', code: 'FLAG_ALREADY_REVIEWED' };
+        }
+
+        await AuditLogService.record({
+          businessId,
+          action: 'stamps.flag_dismissed',
+          audit,
+          targetType: 'flagged_activity',
+          targetId: flag.id,
+          metadata: { rule: flag.rule, note: reviewed.reviewNote ?? undefined }
+        });
+
+        return { success: true, data: { id: flag.id, status: 'dismissed' } };
+      }
+
+      // A blocked manual grant to a new phone number never created the customer
+      const details = (flag.details ?? {}) as FlaggedActivityDetails;
+      let existingCustomer = flag.customerId
+        ? await prisma.customer.findUnique({ where: { id: flag.customerId } })
+        : null;
+
+      if (!existingCustomer && !flag.customerId && details.customerPhone) {
+        existingCustomer = await prisma.customer.findUnique({ where: { phone: details.customerPhone } });
+      }
+
+      // Approval creates the customer if all we have is their phone number
+      const recipient: { customer: Customer } | { phone: string } | null = existingCustomer
+        ? { customer: existingCustomer }
+        : details.customerPhone ? { phone: details.customerPhone } : null;
+
+      if (!recipient) {
+        return { success: false, error: 'The customer no longer exists', code: 'CUSTOMER_NOT_FOUND' };
+      }
+
+      // Flags from before programs existed go on the default program
+      const program = await ProgramService.getProgramOf(prisma, businessId, details.programId ?? null);
+
+      if (!program) {
+        return { success: false, error: 'Loyalty program not found', code: 'PROGRAM_NOT_FOUND' };
+      }
+
+      const approved = await prisma.$transaction(async tx => {
+        const claimed = await tx.flaggedActivity.updateMany({
+          where: { id: flag.id, status: 'pending' },
+          data: { status: 'approved', ...reviewed }
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        const customer = 'customer' in recipient
+          ? recipient.customer
+          : await tx.customer.create({ data: { phone: recipient.phone } });
+
+        // An approved QR claim consumes the QR code, so it can't be scanned again afterwards
+        if (flag.qrId) {
+          const consumed = await tx.qrCode.updateMany({
+            where: { qrId: flag.qrId, claimedAt: null },
+            data: { claimedAt: new Date(), customerId: customer.id }
+          });
+
+          if (consumed.count === 0) {
+            throw new QrAlreadyClaimedError();
+          }
+        }
+
+        await MembershipService.join(tx, customer.id, businessId);
+
+        const transaction = await tx.stampTransaction.create({
+          data: {
+            stampsAwarded: flag.stamps,
+            source: flag.source,
+            qrId: flag.qrId,
+            notes: details.notes || null,
+            purchaseAmount: details.purchaseAmount ?? null,
+            customerId: customer.id,
+            businessId,
+            programId: program.id,
+            staffId: flag.staffId,
+            counterDisplayId: flag.counterDisplayId
+          }
+        });
+
+        await tx.flaggedActivity.update({
+          where: { id: flag.id },
+          data: { stampTransactionId: transaction.id, customerId: customer.id }
+        });
+
+        const counters = await LedgerService.post(tx, {
+          type: 'earn',
+          stamps: flag.stamps,
+          customerId: customer.id,
+          businessId,
+          programId: program.id,
+          stampTransactionId: transaction.id,
+          visits: 1
+        });
+
+        return { customer, transaction, counters };
+      });
+
+      if (!approved) {
+        return { success: false, error: 'This activity has already been reviewed', code: 'FLAG_ALREADY_REVIEWED' };
+      }
+
+      console.log(`🚩 Flagged activity approved for business ${businessId}: ${flag.stamps} stamps for customer ${approved.customer.id}`);
+      await AuditLogService.record({
+        businessId,
+        action: 'stamps.flag_approved',
+        audit,
+        targetType: 'flagged_activity',
+        targetId: flag.id,
+        metadata: {
+          rule: flag.rule,
+          stamps: flag.stamps,
+          customerId: approved.customer.id,
+          stampTransactionId: approved.transaction.id,
+          note: reviewed.reviewNote ?? undefined
+        }
+      });
+      await EventService.publish(businessId, 'stamps.granted', {
+        customer: { id: approved.customer.id, phone: approved.customer.phone },
+        stampsAwarded: flag.stamps,
+        totalStamps: approved.counters.totalStamps,
+        flagId: flag.id
+      });
+
+      return {
+        success: true,
+        data: {
+          id: flag.id,
+          status: 'approved',
+          stampTransactionId: approved.transaction.id,
+          totalStamps: approved.counters.totalStamps
+        }
+      };
+    } catch (error) {
+      if (error instanceof QrAlreadyClaimedError) {
+        return { success: false, error: 'This QR code has already been claimed', code: 'QR_ALREADY_CLAIMED' };
+      }
+
+      if (isPrismaUniqueConstraintError(error)) {
+        return { success: false, error: 'Customer was just created elsewhere. Please try again.', code: 'CUSTOMER_CONFLICT' };
+      }
+
+      console.error('❌ Review flagged activity error:', error);
+      return { success: false, error: 'Failed to review flagged activity' };
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../app';
+import { isPrismaUniqueConstraintError } from '../utils/errorHandler';
+import { IdempotencyBeginResult, IdempotencyRequest } from '../types/idempotency';
+
+// How long a key (and its stored response) is kept
+const KEY_RETENTION_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_RETENTION_HOURS || '24');
+
+// A request that hasn't finished after this long is assumed to have died with its process
+const IN_PROGRESS_TIMEOUT_MS = 60 * 1000;
+
+export class IdempotencyService {
+  /**
+   * Claim a key for a request, or find what an earlier request with the same key did
+   */
+  static async begin(request: IdempotencyRequest): Promise<IdempotencyBeginResult> {
+    const { businessId, key, requestHash } = request;
+
+    // Second attempt is for a key that was expired or abandoned and has just been cleared
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const record = await prisma.idempotencyKey.create({
+          data: {
+            businessId,
+            key,
+            requestHash,
+            expiresAt: new Date(Date.now() + KEY_RETENTION_HOURS * 60 * 60 * 1000)
+          }
+        });
+
+        return { status: 'started', id: record.id };
+      } catch (error) {
+        if (!isPrismaUniqueConstraintError(error)) throw error;
+      }
+
+      const existing = await prisma.idempotencyKey.findUnique({
+        where: { businessId_key: { businessId, key } }
+      });
+
+      if (!existing) continue;
+
+      const abandoned = !existing.completedAt && existing.createdAt.getTime() < Date.now() - IN_PROGRESS_TIMEOUT_MS;
+
+      if (existing.expiresAt.getTime() < Date.now() || abandoned) {
+        await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+        continue;
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return { status: 'mismatch' };
+      }
+
+      // The status code is written together with completedAt
+      if (!existing.completedAt || existing.statusCode === null) {
+        return { status: 'in_progress' };
+      }
+
+      return { status: 'replay', statusCode: existing.statusCode, response: existing.response };
+    }
+
+    return { status: 'in_progress' };
+  }
+
+  /**
+   * Store the response of a finished request for replays
+   */
+  static async complete(id: string, statusCode: number, response: unknown): Promise<void> {
+    await prisma.idempotencyKey.update({
+      where: { id },
+      data: { statusCode, response: response as Prisma.InputJsonValue, completedAt: new Date() }
+    });
+  }
+
+  /**
+   * Forget a key whose request failed in a way worth retrying
+   */
+  static async release(id: string): Promise<void> {
+    await prisma.idempotencyKey.deleteMany({ where: { id } });
+  }
+
+  /**
+   * Delete keys past the retention window
+   * @returns number - Keys deleted
+   */
+  static async purgeExpired(): Promise<number> {
+    const purged = await prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    });
+
+    return purged.count;
+  }
+}
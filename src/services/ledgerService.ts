@@ -0,0 +1,267 @@
+import { prisma } from '../app';
+import { programScope } from './programService';
+import { logError } from '../utils/errorHandler';
+import {
+  LedgerCounters,
+  LedgerEntryType,
+  LedgerMismatch,
+  LedgerPosting,
+  LedgerReconciliationReport
+} from '../types/stamps';
+import { ProgramRef } from '../types/programs';
+import { DbClient } from '../types/database';
+
+// Stamp transactions from these sources count as a visit (unless voided in full)
+export const VISIT_SOURCES = ['qr_scan', 'counter_display', 'manual'];
+
+const COUNTER_FIELDS: (keyof LedgerCounters)[] = ['totalStamps', 'totalVisits', 'totalRewards'];
+
+const emptyCounters = (): LedgerCounters => ({ totalStamps: 0, totalVisits: 0, totalRewards: 0 });
+
+interface MissingEntry {
+  type: LedgerEntryType;
+  stamps: number;
+  customerId: string;
+  businessId: string;
+  programId: string | null;
+  stampTransactionId?: string;
+  rewardId?: string;
+  createdAt: Date;
+}
+
+export class LedgerService {
+  /**
+   * Write a ledger entry and update the cached counters of the customer's membership in the same transaction
+   * @param tx - Transaction client of the write that changes the balance
+   * @returns LedgerCounters - The membership's counters after the entry
+   */
+  static async post(tx: DbClient, posting: LedgerPosting): Promise<LedgerCounters> {
+    await tx.stampLedgerEntry.create({
+      data: {
+        type: posting.type,
+        stamps: posting.stamps,
+        customerId: posting.customerId,
+        businessId: posting.businessId,
+        programId: posting.programId,
+        stampTransactionId: posting.stampTransactionId,
+        rewardId: posting.rewardId,
+        refundedRewardId: posting.refundedRewardId
+      }
+    });
+
+    return tx.customerMembership.update({
+      where: { customerId_businessId: { customerId: posting.customerId, businessId: posting.businessId } },
+      data: {
+        totalStamps: { increment: posting.stamps },
+        ...(posting.visits ? { totalVisits: { increment: posting.visits } } : {}),
+        ...(posting.rewards ? { totalRewards: { increment: posting.rewards } } : {}),
+        ...(posting.type === 'earn' && posting.visits ? { lastVisit: new Date() } : {})
+      },
+      select: { totalStamps: true, totalVisits: true, totalRewards: true }
+    });
+  }
+
+  /**
+   * A customer's stamp balance at a business, summed from the ledger
+   * @param client - Prisma client or transaction client
+   */
+  static async getBalance(client: DbClient, customerId: string, businessId: string): Promise<number> {
+    const ledger = await client.stampLedgerEntry.aggregate({
+      where: { customerId, businessId },
+      _sum: { stamps: true }
+    });
+
+    return ledger._sum.stamps || 0;
+  }
+
+  /**
+   * A customer's stamp balance on one program's card, summed from the ledger
+   * @param client - Prisma client or transaction client
+   */
+  static async getProgramBalance(client: DbClient, customerId: string, program: ProgramRef): Promise<number> {
+    const ledger = await client.stampLedgerEntry.aggregate({
+      where: { customerId, businessId: program.businessId, ...programScope(program) },
+      _sum: { stamps: true }
+    });
+
+    return ledger._sum.stamps || 0;
+  }
+
+  /**
+   * What the cached counters should be: balance from the ledger, visits from
+   * unvoided stamp transactions, rewards from reward rows that weren't cancelled
+   * @returns Record<string, LedgerCounters> - By customer ID (customers without activity are absent)
+   */
+  private static async getExpectedCounters(
+    client: DbClient,
+    where: { businessId: string; customerId?: string }
+  ): Promise<Record<string, LedgerCounters>> {
+    const [balances, visits, rewards] = await Promise.all([
+      client.stampLedgerEntry.groupBy({ by: ['customerId'], where, _sum: { stamps: true } }),
+      client.stampTransaction.groupBy({
+        by: ['customerId'],
+        where: { ...where, reversalOfId: null, voidedAt: null, source: { in: VISIT_SOURCES } },
+        _count: { _all: true }
+      }),
+      client.reward.groupBy({ by: ['customerId'], where: { ...where, status: { not: 'cancelled' } }, _count: { _all: true } })
+    ]);
+
+    const expected: Record<string, LedgerCounters> = {};
+    const countersFor = (customerId: string): LedgerCounters => {
+      expected[customerId] = expected[customerId] || emptyCounters();
+      return expected[customerId];
+    };
+
+    balances.forEach(group => { countersFor(group.customerId).totalStamps = group._sum.stamps || 0; });
+    visits.forEach(group => { countersFor(group.customerId).totalVisits = group._count._all; });
+    rewards.forEach(group => { countersFor(group.customerId).totalRewards = group._count._all; });
+
+    return expected;
+  }
+
+  /**
+   * Stamp transactions and rewards recorded before the ledger existed (or written around it)
+   * @param customerId - Only those of one customer
+   */
+  private static async findMissingEntries(
+    businessId: string,
+    customerId?: string
+  ): Promise<{ stampTransactions: MissingEntry[]; rewards: MissingEntry[] }> {
+    const [transactions, rewards] = await Promise.all([
+      prisma.stampTransaction.findMany({
+        where: { businessId, customerId, ledgerEntry: { is: null } },
+        select: { id: true, stampsAwarded: true, reversalOfId: true, customerId: true, programId: true, createdAt: true }
+      }),
+      prisma.reward.findMany({
+        where: { businessId, customerId, ledgerEntry: { is: null } },
+        select: { id: true, stampsUsed: true, customerId: true, programId: true, createdAt: true }
+      })
+    ]);
+
+    return {
+      stampTransactions: transactions.map(transaction => ({
+        type: transaction.reversalOfId || transaction.stampsAwarded < 0 ? 'adjust' : 'earn',
+        stamps: transaction.stampsAwarded,
+        customerId: transaction.customerId,
+        businessId,
+        programId: transaction.programId,
+        stampTransactionId: transaction.id,
+        createdAt: transaction.createdAt
+      })),
+      rewards: rewards.map(reward => ({
+        type: 'spend',
+        stamps: -reward.stampsUsed,
+        customerId: reward.customerId,
+        businessId,
+        programId: reward.programId,
+        rewardId: reward.id,
+        createdAt: reward.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Reset the cached counters of one customer's membership from the ledger
+   * Serializable so a concurrent posting can't be overwritten with a stale total
+   */
+  private static async repairMembership(customerId: string, businessId: string): Promise<void> {
+    await prisma.$transaction(async tx => {
+      const expected = (await this.getExpectedCounters(tx, { businessId, customerId }))[customerId] || emptyCounters();
+
+      await tx.customerMembership.update({
+        where: { customerId_businessId: { customerId, businessId } },
+        data: expected
+      });
+    }, { isolationLevel: 'Serializable' });
+  }
+
+  /**
+   * Backfill one customer's missing ledger entries at a business and reset their membership's counters from the ledger
+   * For a membership created after the customer's stamps were recorded
+   */
+  static async rebuildMembership(customerId: string, businessId: string): Promise<void> {
+    const missing = await this.findMissingEntries(businessId, customerId);
+    const missingEntries = [...missing.stampTransactions, ...missing.rewards];
+
+    if (missingEntries.length > 0) {
+      await prisma.stampLedgerEntry.createMany({
+        data: missingEntries,
+        skipDuplicates: true
+      });
+    }
+
+    await this.repairMembership(customerId, businessId);
+  }
+
+  /**
+   * Compare the cached counters of every membership of a business with the ledger
+   * @param repair - Backfill missing ledger entries and correct the counters
+   * @returns LedgerReconciliationReport, or null if the check itself failed
+   */
+  static async reconcileBusiness(businessId: string, repair: boolean = false): Promise<LedgerReconciliationReport | null> {
+    try {
+      const missing = await this.findMissingEntries(businessId);
+      const missingEntries = [...missing.stampTransactions, ...missing.rewards];
+
+      const [memberships, expected] = await Promise.all([
+        prisma.customerMembership.findMany({
+          where: { businessId },
+          select: { customerId: true, totalStamps: true, totalVisits: true, totalRewards: true }
+        }),
+        this.getExpectedCounters(prisma, { businessId })
+      ]);
+
+      // Count the missing entries as if they had been written
+      missingEntries.forEach(entry => {
+        expected[entry.customerId] = expected[entry.customerId] || emptyCounters();
+        expected[entry.customerId].totalStamps += entry.stamps;
+      });
+
+      const mismatches: LedgerMismatch[] = [];
+      memberships.forEach(membership => {
+        const counters = expected[membership.customerId] || emptyCounters();
+        COUNTER_FIELDS.forEach(field => {
+          if (membership[field] !== counters[field]) {
+            mismatches.push({ customerId: membership.customerId, field, cached: membership[field], expected: counters[field] });
+          }
+        });
+      });
+
+      if (repair) {
+        if (missingEntries.length > 0) {
+          await prisma.stampLedgerEntry.createMany({
+            data: missingEntries,
+            skipDuplicates: true
+          });
+        }
+
+        const driftedCustomers = Array.from(new Set(mismatches.map(mismatch => mismatch.customerId)));
+        for (const customerId of driftedCustomers) {
+          try {
+            await this.repairMembership(customerId, businessId);
+          } catch (error) {
+            logError(`Repair ledger counters for customer ${customerId}`, error);
+          }
+        }
+
+        if (missingEntries.length > 0 || driftedCustomers.length > 0) {
+          console.log(`🧾 Ledger repaired for business ${businessId}: ${missingEntries.length} entries backfilled, ${driftedCustomers.length} customers corrected`);
+        }
+      }
+
+      return {
+        businessId,
+        customersChecked: memberships.length,
+        missingEntries: {
+          stampTransactions: missing.stampTransactions.length,
+          rewards: missing.rewards.length
+        },
+        mismatches,
+        repaired: repair
+      };
+    } catch (error) {
+      console.error('❌ Reconcile ledger error:', error);
+      return null;
+    }
+  }
+}
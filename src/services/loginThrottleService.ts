@@ -0,0 +1,179 @@
+import { LoginThrottle } from '@prisma/client';
+import { prisma } from '../app';
+import { MailService } from './mailService';
+import { AuditLogService } from './auditLogService';
+import { logError } from '../utils/errorHandler';
+import { ClientContext } from '../types/auth';
+
+// Per-email limits
+const EMAIL_FREE_ATTEMPTS = 3;                 // Failures before backoff kicks in
+const EMAIL_LOCKOUT_THRESHOLD = 10;            // Failures before the account is locked
+const LOCKOUT_BASE_MS = 15 * 60 * 1000;        // First lockout: 15 minutes, doubling each time
+const LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000;
+
+// Per-IP limits - higher, since offices and cafés share addresses
+const IP_FREE_ATTEMPTS = 10;
+
+const BACKOFF_BASE_MS = 1000;                  // 1s, 2s, 4s, ... after the free attempts
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000; // Failures older than this are forgotten
+
+export interface ThrottleCheck {
+  allowed: boolean;
+  code?: 'ACCOUNT_LOCKED' | 'TOO_MANY_ATTEMPTS';
+  error?: string;
+  retryAfter?: number; // Seconds
+}
+
+const emailKey = (email: string): string => `email:${email.toLowerCase().trim()}`;
+const ipKey = (ipAddress: string): string => `ip:${ipAddress}`;
+
+const secondsUntil = (date: Date): number => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+export class LoginThrottleService {
+  /**
+   * Check whether a sign-in attempt for this email/IP may proceed
+   */
+  static async checkAllowed(email: string, context: ClientContext = {}): Promise<ThrottleCheck> {
+    const keys = [emailKey(email), ...(context.ipAddress ? [ipKey(context.ipAddress)] : [])];
+    const now = Date.now();
+
+    const throttles = await prisma.loginThrottle.findMany({
+      where: { key: { in: keys } }
+    });
+
+    const emailThrottle = throttles.find(throttle => throttle.key === keys[0]);
+
+    if (emailThrottle?.lockedUntil && emailThrottle.lockedUntil.getTime() > now) {
+      return {
+        allowed: false,
+        code: 'ACCOUNT_LOCKED',
+        error: 'This account is temporarily locked after too many failed sign-in attempts.',
+        retryAfter: secondsUntil(emailThrottle.lockedUntil)
+      };
+    }
+
+    const blockedUntil = throttles
+      .map(throttle => throttle.nextAttemptAt)
+      .filter((nextAttemptAt): nextAttemptAt is Date => !!nextAttemptAt && nextAttemptAt.getTime() > now)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    if (blockedUntil) {
+      return {
+        allowed: false,
+        code: 'TOO_MANY_ATTEMPTS',
+        error: 'Too many failed sign-in attempts. Please wait before trying again.',
+        retryAfter: secondsUntil(blockedUntil)
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Count a failed attempt against the email and the IP
+   */
+  static async recordFailure(email: string, context: ClientContext = {}): Promise<void> {
+    try {
+      const emailThrottle = await this.increment(emailKey(email), EMAIL_FREE_ATTEMPTS);
+
+      if (context.ipAddress) {
+        await this.increment(ipKey(context.ipAddress), IP_FREE_ATTEMPTS);
+      }
+
+      if (emailThrottle.failedCount >= EMAIL_LOCKOUT_THRESHOLD) {
+        await this.lock(email, emailThrottle, context);
+      }
+    } catch (error) {
+      // Never let bookkeeping failures turn into sign-in failures
+      logError('Record failed sign-in', error);
+    }
+  }
+
+  /**
+   * Clear the email's counters after a successful sign-in, including the lockout escalation
+   * (IP counters are left alone so one good account can't reset them)
+   */
+  static async recordSuccess(email: string): Promise<void> {
+    try {
+      await prisma.loginThrottle.updateMany({
+        where: { key: emailKey(email) },
+        data: { failedCount: 0, nextAttemptAt: null, lockedUntil: null, lockoutCount: 0 }
+      });
+    } catch (error) {
+      logError('Record successful sign-in', error);
+    }
+  }
+
+  /**
+   * Bump a counter and set its exponential backoff
+   */
+  private static async increment(key: string, freeAttempts: number) {
+    const now = new Date();
+    const existing = await prisma.loginThrottle.findUnique({ where: { key } });
+
+    // Start counting afresh once old failures have aged out
+    const isStale = !existing?.lastFailedAt || now.getTime() - existing.lastFailedAt.getTime() > FAILURE_WINDOW_MS;
+
+    const throttle = await prisma.loginThrottle.upsert({
+      where: { key },
+      create: { key, failedCount: 1, lastFailedAt: now },
+      update: {
+        failedCount: isStale ? 1 : { increment: 1 },
+        lastFailedAt: now
+      }
+    });
+
+    const excess = throttle.failedCount - freeAttempts;
+    if (excess > 0) {
+      const delay = Math.min(BACKOFF_BASE_MS * 2 ** (excess - 1), BACKOFF_MAX_MS);
+
+      return prisma.loginThrottle.update({
+        where: { key },
+        data: { nextAttemptAt: new Date(now.getTime() + delay) }
+      });
+    }
+
+    return throttle;
+  }
+
+  /**
+   * Lock the account and let whoever owns the email know
+   */
+  private static async lock(email: string, throttle: LoginThrottle, context: ClientContext): Promise<void> {
+    const duration = Math.min(LOCKOUT_BASE_MS * 2 ** throttle.lockoutCount, LOCKOUT_MAX_MS);
+    const lockedUntil = new Date(Date.now() + duration);
+
+    await prisma.loginThrottle.update({
+      where: { key: throttle.key },
+      data: {
+        lockedUntil,
+        lockoutCount: { increment: 1 },
+        failedCount: 0,
+        nextAttemptAt: null
+      }
+    });
+
+    console.warn(`🔒 Sign-in locked for ${email} until ${lockedUntil.toISOString()}`);
+
+    const normalizedEmail = email.toLowerCase().trim();
+    const [business, staff] = await Promise.all([
+      prisma.business.findUnique({ where: { email: normalizedEmail }, select: { id: true, name: true, email: true } }),
+      prisma.staffMember.findUnique({ where: { email: normalizedEmail }, select: { id: true, name: true, email: true, businessId: true } })
+    ]);
+
+    const owner = business || staff;
+    const ownerBusinessId = business ? business.id : staff?.businessId;
+    if (owner && ownerBusinessId) {
+      await MailService.sendAccountLocked(owner.email, owner.name, lockedUntil, context.ipAddress);
+      await AuditLogService.record({
+        businessId: ownerBusinessId,
+        action: 'auth.account_locked',
+        audit: { actor: null, ...context },
+        targetType: business ? 'business' : 'staff',
+        targetId: owner.id,
+        metadata: { lockedUntil: lockedUntil.toISOString() }
+      });
+    }
+  }
+}
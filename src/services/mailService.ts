@@ -0,0 +1,201 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { logError } from '../utils/errorHandler';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Anything that can deliver an email
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Delivers mail through an SMTP server (SMTP_* variables)
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(
+    host: string,
+    port: number,
+    user: string | undefined,
+    pass: string | undefined,
+    private readonly from: string
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: user ? { user, pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+/**
+ * Writes each message as a JSON file - handy for local development
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@.]/gi, '_')}.json`;
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.writeFile(filePath, JSON.stringify({ ...message, sentAt: new Date() }, null, 2));
+    console.log(`📧 Mail to ${message.to} written to ${filePath}`);
+  }
+}
+
+/**
+ * Keeps messages in memory so tests can read the links that were sent
+ */
+export class InMemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly messages: (MailMessage & { sentAt: Date })[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push({ ...message, sentAt: new Date() });
+  }
+
+  lastMessageTo(to: string): (MailMessage & { sentAt: Date }) | undefined {
+    return [...this.messages].reverse().find(message => message.to === to);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+export class MailService {
+  private static transport: MailTransport | null = null;
+
+  /**
+   * Pick a transport from the environment
+   * MAIL_TRANSPORT=smtp|file|memory, defaults to smtp when SMTP_HOST is set
+   */
+  private static createTransport(): MailTransport {
+    const { MAIL_TRANSPORT, SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS } = process.env;
+    const from = process.env.MAIL_FROM || 'Go Out! <no-reply@go-out.app>';
+
+    if (MAIL_TRANSPORT === 'memory') {
+      return new InMemoryMailTransport();
+    }
+
+    if (MAIL_TRANSPORT === 'smtp' || (!MAIL_TRANSPORT && SMTP_HOST)) {
+      if (!SMTP_HOST) {
+        throw new Error('SMTP mail transport selected but SMTP_HOST is not set');
+      }
+      return new SmtpMailTransport(SMTP_HOST, parseInt(SMTP_PORT || '587'), SMTP_USER || undefined, SMTP_PASS, from);
+    }
+
+    return new FileMailTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'logs', 'mail'));
+  }
+
+  static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = this.createTransport();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Override the transport (used by tests and scripts)
+   */
+  static setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email, returning false instead of throwing on delivery failure
+   */
+  static async send(message: MailMessage): Promise<boolean> {
+    try {
+      await this.getTransport().send(message);
+      return true;
+    } catch (error) {
+      logError(`Mail delivery via ${this.getTransport().name}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Build a link into the frontend app
+   */
+  static frontendLink(pathname: string, params: Record<string, string> = {}): string {
+    const url = new URL(pathname, process.env.FRONTEND_URL || 'http://localhost:3000');
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+  }
+
+  static async sendPasswordReset(to: string, businessName: string, token: string): Promise<boolean> {
+    const link = this.frontendLink('/reset-password', { token });
+
+    return this.send({
+      to,
+      subject: 'Reset your Go Out! password',
+      text: `Hi ${businessName},\n\nWe received a request to reset your password. ` +
+        `Use the link below within the next hour:\n\n${link}\n\n` +
+        `If you didn't ask for this, you can ignore this email.`
+    });
+  }
+
+  static async sendEmailVerification(to: string, businessName: string, token: string): Promise<boolean> {
+    const link = this.frontendLink('/verify-email', { token });
+
+    return this.send({
+      to,
+      subject: 'Verify your Go Out! email address',
+      text: `Hi ${businessName},\n\nPlease confirm your email address within 24 hours:\n\n${link}`
+    });
+  }
+
+  static async sendPasswordChanged(to: string, businessName: string): Promise<boolean> {
+    return this.send({
+      to,
+      subject: 'Your Go Out! password was changed',
+      text: `Hi ${businessName},\n\nYour password was just changed and all devices were signed out. ` +
+        `If this wasn't you, reset your password immediately.`
+    });
+  }
+
+  static async sendStaffInvite(to: string, staffName: string, businessName: string, role: string, token: string): Promise<boolean> {
+    const link = this.frontendLink('/staff/accept-invite', { token });
+
+    return this.send({
+      to,
+      subject: `You've been invited to join ${businessName} on Go Out!`,
+      text: `Hi ${staffName},\n\n${businessName} has invited you to join their team as ${role}. ` +
+        `Set your password within 7 days using the link below:\n\n${link}`
+    });
+  }
+
+  static async sendAccountLocked(to: string, name: string, lockedUntil: Date, ipAddress?: string): Promise<boolean> {
+    const resetLink = this.frontendLink('/forgot-password');
+
+    return this.send({
+      to,
+      subject: 'Your Go Out! account has been temporarily locked',
+      text: `Hi ${name},\n\nWe locked sign-in to your account until ${lockedUntil.toUTCString()} ` +
+        `after too many failed password attempts${ipAddress ? ` (last from IP ${ipAddress})` : ''}.\n\n` +
+        `If this wasn't you, consider resetting your password:\n\n${resetLink}`
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { prisma } from '../app';
+import { LedgerService, VISIT_SOURCES } from './ledgerService';
+import { isPrismaUniqueConstraintError } from '../utils/errorHandler';
+import { DbClient } from '../types/database';
+
+const businessSummarySelect = {
+  id: true,
+  name: true,
+  logo: true,
+  stampsForReward: true,
+  rewardType: true,
+  primaryColor: true,
+  slogan: true
+};
+
+export class MembershipService {
+  /**
+   * Make a customer a member of a business, keeping the membership if they already are one
+   * @param client - Prisma client or transaction client
+   */
+  static async join(client: DbClient, customerId: string, businessId: string) {
+    return client.customerMembership.upsert({
+      where: { customerId_businessId: { customerId, businessId } },
+      create: { customerId, businessId },
+      update: {}
+    });
+  }
+
+  /**
+   * A customer's membership at a business, or null if they haven't joined it
+   * @param client - Prisma client or transaction client
+   */
+  static async find(client: DbClient, customerId: string, businessId: string) {
+    return client.customerMembership.findUnique({
+      where: { customerId_businessId: { customerId, businessId } }
+    });
+  }
+
+  /**
+   * Move a customer from before memberships existed onto a membership at the business their row belonged to,
+   * with its counters rebuilt from the stamp ledger. Safe to repeat; customers without a legacy business are left alone
+   * @returns The business the customer was moved to, or null if there was nothing to move
+   */
+  static async adoptLegacyCustomer(customerId: string): Promise<string | null> {
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { createdAt: true, legacyBusinessId: true }
+    });
+
+    if (!customer?.legacyBusinessId) return null;
+
+    const businessId = customer.legacyBusinessId;
+    const lastVisit = await prisma.stampTransaction.findFirst({
+      where: { customerId, businessId, source: { in: VISIT_SOURCES }, reversalOfId: null, voidedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true }
+    });
+
+    try {
+      await prisma.customerMembership.upsert({
+        where: { customerId_businessId: { customerId, businessId } },
+        create: { customerId, businessId, createdAt: customer.createdAt, lastVisit: lastVisit?.createdAt ?? null },
+        update: {}
+      });
+    } catch (error) {
+      // A concurrent request created it first
+      if (!isPrismaUniqueConstraintError(error)) throw error;
+    }
+
+    // The counters used to live on the customer row; the ledger has everything needed to rebuild them
+    await LedgerService.rebuildMembership(customerId, businessId);
+
+    // Cleared last, so a move that failed halfway is picked up again
+    await prisma.customer.update({
+      where: { id: customerId },
+      data: { legacyBusinessId: null }
+    });
+
+    return businessId;
+  }
+
+  /**
+   * Every business a customer has joined, most recently visited first
+   */
+  static async listForCustomer(customerId: string) {
+    try {
+      return await prisma.customerMembership.findMany({
+        where: { customerId },
+        orderBy: [{ lastVisit: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+        select: {
+          id: true,
+          createdAt: true,
+          totalStamps: true,
+          totalRewards: true,
+          totalVisits: true,
+          lastVisit: true,
+          business: { select: businessSummarySelect }
+        }
+      });
+    } catch (error) {
+      console.error('❌ List customer memberships error:', error);
+      return null;
+    }
+  }
+}
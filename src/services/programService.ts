@@ -0,0 +1,245 @@
+import { prisma } from '../app';
+import { AuditLogService, diffChanges } from './auditLogService';
+import { ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+import { CustomerProgramBalance, LoyaltyProgramData, ProgramRef } from '../types/programs';
+import { DbClient } from '../types/database';
+import { bonusRulesToJson } from '../utils/stampRules';
+import { inTransaction, lockUntilCommit } from '../utils/transaction';
+
+const DEFAULT_PROGRAM_NAME = 'Stamp Card';
+
+/**
+ * Where-clause for rows of a program; rows from before programs existed (programId null) belong to the default one
+ */
+export const programScope = (program: ProgramRef) => {
+  return program.isDefault
+    ? { OR: [{ programId: program.id }, { programId: null }] }
+    : { programId: program.id };
+};
+
+export class ProgramService {
+  /**
+   * The business's default program, created if it doesn't exist yet
+   * @param client - Prisma client or transaction client
+   */
+  static async getDefaultProgram(client: DbClient, businessId: string) {
+    const program = await client.loyaltyProgram.findFirst({ where: { businessId, isDefault: true } });
+
+    if (program) return program;
+
+    return inTransaction(client, async tx => {
+      await lockUntilCommit(tx, 'default_program', businessId);
+
+      // Whoever held the lock before us may have just created it
+      const created = await tx.loyaltyProgram.findFirst({ where: { businessId, isDefault: true } });
+
+      if (created) return created;
+
+      return tx.loyaltyProgram.create({
+        data: { businessId, name: DEFAULT_PROGRAM_NAME, isDefault: true }
+      });
+    });
+  }
+
+  /**
+   * The active program stamps or rewards are meant for; the default program if none is given
+   * @param client - Prisma client or transaction client
+   * @returns The program, or null if it doesn't exist at the business or is inactive
+   */
+  static async resolve(client: DbClient, businessId: string, programId?: string | null) {
+    if (!programId) {
+      return this.getDefaultProgram(client, businessId);
+    }
+
+    return client.loyaltyProgram.findFirst({ where: { id: programId, businessId, isActive: true } });
+  }
+
+  /**
+   * The program an existing row belongs to, active or not
+   * @param client - Prisma client or transaction client
+   */
+  static async getProgramOf(client: DbClient, businessId: string, programId: string | null) {
+    if (!programId) {
+      return this.getDefaultProgram(client, businessId);
+    }
+
+    return client.loyaltyProgram.findFirst({ where: { id: programId, businessId } });
+  }
+
+  /**
+   * The business's programs, default first
+   * @param includeInactive - Also list deactivated programs (for the business)
+   */
+  static async listPrograms(businessId: string, includeInactive: boolean = false) {
+    try {
+      await this.getDefaultProgram(prisma, businessId);
+
+      return await prisma.loyaltyProgram.findMany({
+        where: { businessId, ...(includeInactive ? {} : { isActive: true }) },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }]
+      });
+    } catch (error) {
+      console.error('❌ List loyalty programs error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Start another stamp card at the business
+   */
+  static async createProgram(businessId: string, programData: LoyaltyProgramData, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      // Make sure rows without a program keep belonging to a default one
+      await this.getDefaultProgram(prisma, businessId);
+
+      const program = await prisma.loyaltyProgram.create({
+        data: {
+          businessId,
+          name: programData.name,
+          description: programData.description || null,
+          isActive: programData.isActive ?? true,
+          stampsPerVisit: programData.stampsPerVisit ?? null,
+          minSpendForStamp: programData.minSpendForStamp ?? null,
+          spendPerStamp: programData.spendPerStamp ?? null,
+          stampBonusRules: bonusRulesToJson(programData.stampBonusRules),
+          maxStampsPerVisit: programData.maxStampsPerVisit ?? null
+        }
+      });
+
+      console.log(`🗂️ Loyalty program created for business ${businessId}: ${program.name}`);
+      await AuditLogService.record({
+        businessId,
+        action: 'program.created',
+        audit,
+        targetType: 'loyalty_program',
+        targetId: program.id,
+        metadata: { name: program.name }
+      });
+
+      return { success: true, data: program };
+    } catch (error) {
+      console.error('❌ Create loyalty program error:', error);
+      return { success: false, error: 'Failed to create loyalty program' };
+    }
+  }
+
+  /**
+   * Change a program's name or stamp rules; stamps already issued keep their value
+   */
+  static async updateProgram(
+    businessId: string,
+    programId: string,
+    updateData: Partial<LoyaltyProgramData>,
+    audit: AuditContext
+  ): Promise<ServiceResult> {
+    try {
+      const before = await prisma.loyaltyProgram.findFirst({ where: { id: programId, businessId } });
+
+      if (!before) {
+        return { success: false, error: 'Loyalty program not found', code: 'PROGRAM_NOT_FOUND' };
+      }
+
+      if (before.isDefault && updateData.isActive === false) {
+        return { success: false, error: 'The default program cannot be deactivated', code: 'CANNOT_DEACTIVATE_DEFAULT' };
+      }
+
+      const data = {
+        name: updateData.name,
+        description: updateData.description,
+        isActive: updateData.isActive,
+        stampsPerVisit: updateData.stampsPerVisit,
+        minSpendForStamp: updateData.minSpendForStamp,
+        spendPerStamp: updateData.spendPerStamp,
+        stampBonusRules: updateData.stampBonusRules,
+        maxStampsPerVisit: updateData.maxStampsPerVisit
+      };
+
+      const program = await prisma.loyaltyProgram.update({
+        where: { id: programId },
+        data: { ...data, stampBonusRules: bonusRulesToJson(data.stampBonusRules) }
+      });
+
+      const changes = diffChanges(before, data);
+      if (Object.keys(changes).length > 0) {
+        await AuditLogService.record({
+          businessId,
+          action: 'program.updated',
+          audit,
+          targetType: 'loyalty_program',
+          targetId: program.id,
+          changes
+        });
+      }
+
+      return { success: true, data: program };
+    } catch (error) {
+      console.error('❌ Update loyalty program error:', error);
+      return { success: false, error: 'Failed to update loyalty program' };
+    }
+  }
+
+  /**
+   * Stop a program; customers keep their balance and history on it, but can't earn or spend there anymore
+   */
+  static async deactivateProgram(businessId: string, programId: string, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      const program = await prisma.loyaltyProgram.findFirst({ where: { id: programId, businessId } });
+
+      if (!program) {
+        return { success: false, error: 'Loyalty program not found', code: 'PROGRAM_NOT_FOUND' };
+      }
+
+      if (program.isDefault) {
+        return { success: false, error: 'The default program cannot be deactivated', code: 'CANNOT_DEACTIVATE_DEFAULT' };
+      }
+
+      if (program.isActive) {
+        await prisma.loyaltyProgram.update({ where: { id: program.id }, data: { isActive: false } });
+
+        await AuditLogService.record({
+          businessId,
+          action: 'program.deactivated',
+          audit,
+          targetType: 'loyalty_program',
+          targetId: program.id,
+          metadata: { name: program.name }
+        });
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Deactivate loyalty program error:', error);
+      return { success: false, error: 'Failed to deactivate loyalty program' };
+    }
+  }
+
+  /**
+   * A customer's balance on each active program of their business (zero on cards they haven't used)
+   */
+  static async getCustomerPrograms(customerId: string, businessId: string): Promise<CustomerProgramBalance[] | null> {
+    try {
+      const defaultProgram = await this.getDefaultProgram(prisma, businessId);
+
+      const [programs, balances] = await Promise.all([
+        prisma.loyaltyProgram.findMany({
+          where: { businessId, OR: [{ isActive: true }, { isDefault: true }] },
+          orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+          select: { id: true, name: true, description: true, isDefault: true }
+        }),
+        prisma.stampLedgerEntry.groupBy({ by: ['programId'], where: { customerId, businessId }, _sum: { stamps: true } })
+      ]);
+
+      const totals: Record<string, number> = {};
+      balances.forEach(group => {
+        const programId = group.programId || defaultProgram.id;
+        totals[programId] = (totals[programId] || 0) + (group._sum.stamps || 0);
+      });
+
+      return programs.map(program => ({ program, totalStamps: totals[program.id] || 0 }));
+    } catch (error) {
+      console.error('❌ Get customer programs error:', error);
+      return null;
+    }
+  }
+}
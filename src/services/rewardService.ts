@@ -0,0 +1,644 @@
+import { Prisma, Reward, RewardTier } from '@prisma/client';
+import { prisma } from '../app';
+import { AuditLogService, diffChanges } from './auditLogService';
+import { EventService } from './eventService';
+import { LedgerService } from './ledgerService';
+import { ProgramService, programScope } from './programService';
+import { normalizePhone } from '../utils/auth';
+import { isPrismaError } from '../utils/errorHandler';
+import { inTransaction, lockUntilCommit } from '../utils/transaction';
+import { PaginatedResponse, ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+import { LedgerCounters } from '../types/stamps';
+import {
+  CustomerRewardSummary,
+  RewardCatalogEntry,
+  RewardFilters,
+  RewardRedemptionData,
+  RewardRedemptionResult,
+  RewardRules,
+  RewardTierData
+} from '../types/rewards';
+import { DbClient } from '../types/database';
+
+const REWARD_RULE_FIELDS = { stampsForReward: true, rewardType: true, rewardValue: true, voucherExpiryDays: true };
+
+/**
+ * Why a tier can't be redeemed right now, or null if it can
+ */
+const getUnavailableReason = (tier: RewardTier, now: Date = new Date()): { error: string; code: string } | null => {
+  if (!tier.isActive || (tier.startsAt && tier.startsAt > now) || (tier.endsAt && tier.endsAt <= now)) {
+    return { error: 'This reward is not available right now', code: 'TIER_UNAVAILABLE' };
+  }
+
+  if (tier.stockLimit !== null && tier.redeemedCount >= tier.stockLimit) {
+    return { error: 'This reward is out of stock', code: 'TIER_OUT_OF_STOCK' };
+  }
+
+  return null;
+};
+
+const toCatalogEntry = (tier: RewardTier & { programId: string }): RewardCatalogEntry => ({
+  id: tier.id,
+  programId: tier.programId,
+  name: tier.name,
+  description: tier.description,
+  stampCost: tier.stampCost,
+  value: tier.value,
+  startsAt: tier.startsAt,
+  endsAt: tier.endsAt,
+  remainingStock: tier.stockLimit === null ? null : Math.max(tier.stockLimit - tier.redeemedCount, 0),
+  isDefault: tier.isDefault
+});
+
+export class RewardService {
+  /**
+   * The business's default tier, created from its single-reward fields if it doesn't exist yet
+   * Creation holds a per-business lock, so concurrent first redemptions can't create two default tiers
+   * @param client - Prisma client or transaction client
+   * @returns The tier, or null if the business doesn't exist
+   */
+  static async getDefaultTier(client: DbClient, businessId: string) {
+    const tier = await client.rewardTier.findFirst({ where: { businessId, isDefault: true } });
+
+    if (tier) return tier;
+
+    return inTransaction(client, async tx => {
+      await lockUntilCommit(tx, 'default_reward_tier', businessId);
+
+      // Whoever held the lock before us may have just created it
+      const created = await tx.rewardTier.findFirst({ where: { businessId, isDefault: true } });
+
+      if (created) return created;
+
+      const rules = await tx.business.findUnique({ where: { id: businessId }, select: REWARD_RULE_FIELDS });
+
+      if (!rules) return null;
+
+      return tx.rewardTier.create({
+        data: {
+          businessId,
+          name: rules.rewardType,
+          stampCost: rules.stampsForReward,
+          value: rules.rewardValue,
+          isDefault: true
+        }
+      });
+    });
+  }
+
+  /**
+   * Copy the business's single-reward fields onto its default tier after they changed
+   * @param client - Prisma client or transaction client
+   */
+  static async syncDefaultTier(client: DbClient, businessId: string): Promise<void> {
+    const [rules, tier] = await Promise.all([
+      client.business.findUnique({ where: { id: businessId }, select: REWARD_RULE_FIELDS }),
+      this.getDefaultTier(client, businessId)
+    ]);
+
+    if (!rules || !tier) return;
+
+    await client.rewardTier.update({
+      where: { id: tier.id },
+      data: { name: rules.rewardType, value: rules.rewardValue, stampCost: rules.stampsForReward }
+    });
+  }
+
+  /**
+   * The business's reward catalog, cheapest first
+   * @param includeUnavailable - Also list inactive, out-of-window and sold-out tiers (for the business)
+   * @param programId - Only the tiers of one program
+   */
+  static async listTiers(businessId: string, includeUnavailable: boolean = false, programId?: string) {
+    try {
+      await this.getDefaultTier(prisma, businessId);
+
+      const [defaultProgram, programs] = await Promise.all([
+        ProgramService.getDefaultProgram(prisma, businessId),
+        prisma.loyaltyProgram.findMany({ where: { businessId }, select: { id: true, isActive: true } })
+      ]);
+      const activePrograms = programs.filter(program => program.isActive).map(program => program.id);
+
+      const rows = await prisma.rewardTier.findMany({
+        where: { businessId },
+        orderBy: [{ stampCost: 'asc' }, { createdAt: 'asc' }]
+      });
+
+      // Tiers from before programs existed belong to the default program
+      const tiers = rows
+        .map(tier => ({ ...tier, programId: tier.programId ?? defaultProgram.id }))
+        .filter(tier => !programId || tier.programId === programId);
+      const isAvailable = (tier: RewardTier & { programId: string }) => !getUnavailableReason(tier) && activePrograms.includes(tier.programId);
+
+      return tiers
+        .filter(tier => includeUnavailable || isAvailable(tier))
+        .map(tier => includeUnavailable
+          ? { ...tier, available: isAvailable(tier), remainingStock: toCatalogEntry(tier).remainingStock }
+          : toCatalogEntry(tier));
+    } catch (error) {
+      console.error('❌ List reward tiers error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a tier to the reward catalog
+   */
+  static async createTier(businessId: string, tierData: RewardTierData, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      if (tierData.startsAt && tierData.endsAt && tierData.startsAt >= tierData.endsAt) {
+        return { success: false, error: 'The reward must start before it ends', code: 'INVALID_TIER_WINDOW' };
+      }
+
+      const program = await ProgramService.resolve(prisma, businessId, tierData.programId);
+
+      if (!program) {
+        return { success: false, error: 'Loyalty program not found', code: 'PROGRAM_NOT_FOUND' };
+      }
+
+      const tier = await prisma.rewardTier.create({
+        data: {
+          businessId,
+          programId: program.id,
+          name: tierData.name,
+          description: tierData.description || null,
+          stampCost: tierData.stampCost,
+          value: tierData.value,
+          isActive: tierData.isActive ?? true,
+          startsAt: tierData.startsAt ?? null,
+          endsAt: tierData.endsAt ?? null,
+          stockLimit: tierData.stockLimit ?? null
+        }
+      });
+
+      console.log(`🎁 Reward tier created for business ${businessId}: ${tier.name} (${tier.stampCost} stamps)`);
+      await AuditLogService.record({
+        businessId,
+        action: 'reward.tier_created',
+        audit,
+        targetType: 'reward_tier',
+        targetId: tier.id,
+        metadata: {
+          programId: tier.programId,
+          name: tier.name,
+          stampCost: tier.stampCost,
+          value: tier.value,
+          stockLimit: tier.stockLimit
+        }
+      });
+
+      return { success: true, data: tier };
+    } catch (error) {
+      console.error('❌ Create reward tier error:', error);
+      return { success: false, error: 'Failed to create reward tier' };
+    }
+  }
+
+  /**
+   * Change a tier; changing the default tier also changes the business's reward rules
+   */
+  static async updateTier(
+    businessId: string,
+    tierId: string,
+    updateData: Partial<RewardTierData>,
+    audit: AuditContext
+  ): Promise<ServiceResult> {
+    try {
+      const before = await prisma.rewardTier.findFirst({ where: { id: tierId, businessId } });
+
+      if (!before) {
+        return { success: false, error: 'Reward tier not found', code: 'TIER_NOT_FOUND' };
+      }
+
+      if (before.isDefault && updateData.isActive === false) {
+        return { success: false, error: 'The default reward cannot be deactivated', code: 'CANNOT_DEACTIVATE_DEFAULT' };
+      }
+
+      const startsAt = updateData.startsAt !== undefined ? updateData.startsAt : before.startsAt;
+      const endsAt = updateData.endsAt !== undefined ? updateData.endsAt : before.endsAt;
+      if (startsAt && endsAt && startsAt >= endsAt) {
+        return { success: false, error: 'The reward must start before it ends', code: 'INVALID_TIER_WINDOW' };
+      }
+
+      const data = {
+        name: updateData.name,
+        description: updateData.description,
+        stampCost: updateData.stampCost,
+        value: updateData.value,
+        isActive: updateData.isActive,
+        startsAt: updateData.startsAt,
+        endsAt: updateData.endsAt,
+        stockLimit: updateData.stockLimit
+      };
+
+      const tier = await prisma.$transaction(async tx => {
+        const updated = await tx.rewardTier.update({ where: { id: tierId }, data });
+
+        if (updated.isDefault) {
+          await tx.business.update({
+            where: { id: businessId },
+            data: { rewardType: updated.name, rewardValue: updated.value, stampsForReward: updated.stampCost }
+          });
+        }
+
+        return updated;
+      });
+
+      const changes = diffChanges(before, data);
+      if (Object.keys(changes).length > 0) {
+        await AuditLogService.record({
+          businessId,
+          action: 'reward.tier_updated',
+          audit,
+          targetType: 'reward_tier',
+          targetId: tier.id,
+          changes
+        });
+      }
+
+      return { success: true, data: tier };
+    } catch (error) {
+      console.error('❌ Update reward tier error:', error);
+      return { success: false, error: 'Failed to update reward tier' };
+    }
+  }
+
+  /**
+   * Take a tier out of the catalog; rewards already redeemed keep pointing at it
+   */
+  static async deactivateTier(businessId: string, tierId: string, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      const tier = await prisma.rewardTier.findFirst({ where: { id: tierId, businessId } });
+
+      if (!tier) {
+        return { success: false, error: 'Reward tier not found', code: 'TIER_NOT_FOUND' };
+      }
+
+      if (tier.isDefault) {
+        return { success: false, error: 'The default reward cannot be deactivated', code: 'CANNOT_DEACTIVATE_DEFAULT' };
+      }
+
+      if (tier.isActive) {
+        await prisma.rewardTier.update({ where: { id: tier.id }, data: { isActive: false } });
+
+        await AuditLogService.record({
+          businessId,
+          action: 'reward.tier_deactivated',
+          audit,
+          targetType: 'reward_tier',
+          targetId: tier.id,
+          metadata: { name: tier.name }
+        });
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Deactivate reward tier error:', error);
+      return { success: false, error: 'Failed to deactivate reward tier' };
+    }
+  }
+
+  /**
+   * Reward rules of a business
+   */
+  static async getRules(businessId: string): Promise<ServiceResult<RewardRules>> {
+    try {
+      const rules = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: REWARD_RULE_FIELDS
+      });
+
+      if (!rules) {
+        return { success: false, error: 'Business not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      return { success: true, data: rules };
+    } catch (error) {
+      console.error('❌ Get reward rules error:', error);
+      return { success: false, error: 'Failed to get reward rules' };
+    }
+  }
+
+  /**
+   * Change the reward rules (the default tier); rewards already redeemed keep the values they were redeemed with
+   */
+  static async updateRules(
+    businessId: string,
+    updateData: Partial<RewardRules>,
+    audit: AuditContext
+  ): Promise<ServiceResult<RewardRules>> {
+    try {
+      const data = {
+        stampsForReward: updateData.stampsForReward,
+        rewardType: updateData.rewardType,
+        rewardValue: updateData.rewardValue,
+        voucherExpiryDays: updateData.voucherExpiryDays
+      };
+
+      const before = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: REWARD_RULE_FIELDS
+      });
+
+      if (!before) {
+        return { success: false, error: 'Business not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      const rules = await prisma.$transaction(async tx => {
+        const updated = await tx.business.update({
+          where: { id: businessId },
+          data,
+          select: REWARD_RULE_FIELDS
+        });
+
+        await this.syncDefaultTier(tx, businessId);
+
+        return updated;
+      });
+
+      const changes = diffChanges(before, data);
+      if (Object.keys(changes).length > 0) {
+        await AuditLogService.record({
+          businessId,
+          action: 'reward.rules_updated',
+          audit,
+          targetType: 'business',
+          targetId: businessId,
+          changes
+        });
+      }
+
+      return { success: true, data: rules };
+    } catch (error) {
+      console.error('❌ Update reward rules error:', error);
+      return { success: false, error: 'Failed to update reward rules' };
+    }
+  }
+
+  /**
+   * Redeemed rewards of a business, newest first
+   */
+  static async listRewards(businessId: string, filters: RewardFilters) {
+    try {
+      const where: Prisma.RewardWhereInput = { businessId };
+      if (filters.customerId) where.customerId = filters.customerId;
+      if (filters.status) where.status = filters.status;
+      if (filters.programId) {
+        const program = await ProgramService.getProgramOf(prisma, businessId, filters.programId);
+        where.AND = [program ? programScope(program) : { programId: filters.programId }];
+      }
+
+      const [rewards, total] = await Promise.all([
+        prisma.reward.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+          include: {
+            customer: { select: { id: true, firstName: true, lastName: true, phone: true } }
+          }
+        }),
+        prisma.reward.count({ where })
+      ]);
+
+      return {
+        rewards,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          pages: Math.ceil(total / filters.limit)
+        }
+      };
+    } catch (error) {
+      console.error('❌ List rewards error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * A customer's progress towards the business's rewards and the rewards they have redeemed
+   */
+  static async getCustomerRewards(
+    customerId: string,
+    businessId: string,
+    filters: RewardFilters
+  ): Promise<ServiceResult<{ summary: CustomerRewardSummary; rewards: Reward[]; pagination: PaginatedResponse<Reward>['pagination'] }>> {
+    try {
+      const [rules, programs, redeemed, catalog] = await Promise.all([
+        prisma.business.findUnique({ where: { id: businessId }, select: REWARD_RULE_FIELDS }),
+        ProgramService.getCustomerPrograms(customerId, businessId),
+        this.listRewards(businessId, { ...filters, customerId }),
+        this.listTiers(businessId, false, filters.programId)
+      ]);
+
+      if (!rules) {
+        return { success: false, error: 'Business not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      if (!programs || !redeemed || !catalog) {
+        return { success: false, error: 'Failed to get rewards' };
+      }
+
+      // Each tier is paid for from its own program's card
+      const balances: Record<string, number> = {};
+      programs.forEach(({ program, totalStamps }) => { balances[program.id] = totalStamps; });
+      const totalStamps = programs.find(({ program }) => program.isDefault)?.totalStamps || 0;
+
+      return {
+        success: true,
+        data: {
+          summary: {
+            totalStamps,
+            stampsForReward: rules.stampsForReward,
+            rewardsAvailable: Math.floor(totalStamps / rules.stampsForReward),
+            stampsUntilNextReward: rules.stampsForReward - (totalStamps % rules.stampsForReward),
+            rewardType: rules.rewardType,
+            rewardValue: rules.rewardValue,
+            catalog: catalog.map(tier => ({ ...tier, affordable: (balances[tier.programId] || 0) >= tier.stampCost })),
+            programs
+          },
+          rewards: redeemed.rewards.map(({ customer, ...reward }) => reward),
+          pagination: redeemed.pagination
+        }
+      };
+    } catch (error) {
+      console.error('❌ Get customer rewards error:', error);
+      return { success: false, error: 'Failed to get rewards' };
+    }
+  }
+
+  /**
+   * Spend a customer's stamps on a catalog tier: checks the tier is available and the balance on
+   * its program covers it, takes one from the tier's stock, creates the reward row and posts the spend
+   * Run inside a Serializable transaction
+   * @param tierId - Tier the customer chose; the default tier if omitted
+   * @param rewardData - Remaining reward fields (redemption or voucher details)
+   */
+  static async spendOnTier(
+    tx: DbClient,
+    businessId: string,
+    customerId: string,
+    tierId: string | undefined,
+    rewardData: Omit<Prisma.RewardUncheckedCreateInput, 'type' | 'value' | 'stampsUsed' | 'customerId' | 'businessId' | 'programId' | 'rewardTierId'>
+  ): Promise<{ failure: { error: string; code: string } } | { reward: Reward; counters: LedgerCounters; programStamps: number }> {
+    const tier = tierId
+      ? await tx.rewardTier.findFirst({ where: { id: tierId, businessId } })
+      : await this.getDefaultTier(tx, businessId);
+
+    if (!tier) {
+      return { failure: { error: 'Reward tier not found', code: 'TIER_NOT_FOUND' } };
+    }
+
+    const unavailable = getUnavailableReason(tier);
+    if (unavailable) {
+      return { failure: unavailable };
+    }
+
+    const program = await ProgramService.getProgramOf(tx, businessId, tier.programId);
+    if (!program || !program.isActive) {
+      return { failure: { error: 'This reward is not available right now', code: 'TIER_UNAVAILABLE' } };
+    }
+
+    const balance = await LedgerService.getProgramBalance(tx, customerId, program);
+
+    if (balance < tier.stampCost) {
+      return {
+        failure: {
+          error: `Only ${balance} of the ${tier.stampCost} stamps needed for ${tier.name}`,
+          code: 'INSUFFICIENT_STAMPS'
+        }
+      };
+    }
+
+    await tx.rewardTier.update({
+      where: { id: tier.id },
+      data: { redeemedCount: { increment: 1 } }
+    });
+
+    const reward = await tx.reward.create({
+      data: {
+        ...rewardData,
+        type: tier.name,
+        value: tier.value,
+        description: rewardData.description || tier.description,
+        stampsUsed: tier.stampCost,
+        customerId,
+        businessId,
+        programId: program.id,
+        rewardTierId: tier.id
+      }
+    });
+
+    const counters = await LedgerService.post(tx, {
+      type: 'spend',
+      stamps: -tier.stampCost,
+      customerId,
+      businessId,
+      programId: program.id,
+      rewardId: reward.id,
+      rewards: 1
+    });
+
+    return { reward, counters, programStamps: balance - tier.stampCost };
+  }
+
+  /**
+   * Redeem one reward of the catalog for a customer, spending the tier's stamp cost
+   * Serializable so two redemptions at once can't both spend the same stamps (or the last of the stock)
+   */
+  static async redeem(
+    businessId: string,
+    redemptionData: RewardRedemptionData,
+    audit: AuditContext
+  ): Promise<ServiceResult<RewardRedemptionResult>> {
+    try {
+      const customer = await prisma.customer.findFirst({
+        where: {
+          ...(redemptionData.customerId
+            ? { id: redemptionData.customerId }
+            : { phone: normalizePhone(redemptionData.customerPhone || '') }),
+          memberships: { some: { businessId } }
+        },
+        select: { id: true, phone: true, firstName: true, lastName: true }
+      });
+
+      if (!customer) {
+        return { success: false, error: 'Customer not found', code: 'CUSTOMER_NOT_FOUND' };
+      }
+
+      const redeemed = await prisma.$transaction(async tx => {
+        return this.spendOnTier(tx, businessId, customer.id, redemptionData.tierId, {
+          status: 'redeemed',
+          description: redemptionData.description?.trim() || null,
+          isRedeemed: true,
+          redeemedAt: new Date(),
+          redeemedBy: audit.actor?.name ?? null,
+          redeemedByStaffId: audit.actor?.staffId ?? null
+        });
+      }, { isolationLevel: 'Serializable' });
+
+      if ('failure' in redeemed) {
+        return { success: false, ...redeemed.failure };
+      }
+
+      const { reward, counters, programStamps } = redeemed;
+
+      console.log(`🎁 Reward redeemed: ${reward.type} for customer ${customer.id} (${reward.stampsUsed} stamps)`);
+      await AuditLogService.record({
+        businessId,
+        action: 'reward.redeemed',
+        audit,
+        targetType: 'reward',
+        targetId: reward.id,
+        metadata: {
+          customerId: customer.id,
+          programId: reward.programId,
+          tierId: reward.rewardTierId,
+          type: reward.type,
+          value: reward.value,
+          stampsUsed: reward.stampsUsed
+        }
+      });
+      await EventService.publish(businessId, 'reward.redeemed', {
+        rewardId: reward.id,
+        programId: reward.programId,
+        tierId: reward.rewardTierId,
+        type: reward.type,
+        value: reward.value,
+        stampsUsed: reward.stampsUsed,
+        customer: { id: customer.id, firstName: customer.firstName, lastName: customer.lastName },
+        programStamps,
+        totalStamps: counters.totalStamps,
+        staffId: audit.actor?.staffId ?? null
+      });
+
+      return {
+        success: true,
+        data: {
+          reward: {
+            id: reward.id,
+            tierId: reward.rewardTierId,
+            type: reward.type,
+            value: reward.value,
+            stampsUsed: reward.stampsUsed,
+            redeemedAt: reward.redeemedAt,
+            redeemedBy: reward.redeemedBy
+          },
+          customer,
+          programStamps,
+          totalStamps: counters.totalStamps
+        }
+      };
+    } catch (error) {
+      // Serialization failure - the customer's card changed while redeeming
+      if (isPrismaError(error) && error.code === 'P2034') {
+        return { success: false, error: "The customer's card was just changed. Please try again.", code: 'REDEMPTION_CONFLICT' };
+      }
+
+      console.error('❌ Redeem reward error:', error);
+      return { success: false, error: 'Failed to redeem reward' };
+    }
+  }
+}
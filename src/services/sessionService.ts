@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import { prisma } from '../app';
+import {
+  generateBusinessToken,
+  generateCustomerToken,
+  generateRefreshToken,
+  getTokenExpiration,
+  hashToken,
+  parseDuration
+} from '../utils/auth';
+import { AuditLogService } from './auditLogService';
+import { describeUserAgent } from '../utils/requestContext';
+import { ClientContext } from '../types/auth';
+import { DbClient } from '../types/database';
+
+// Don't write lastSeenAt on every request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface IssuedSession {
+  sessionId: string;
+  token: string;
+  expiresAt: Date;
+  refreshToken?: string;
+  rememberMe?: boolean;
+}
+
+export interface RefreshResult {
+  success: boolean;
+  error?: string;
+  code?: 'INVALID_REFRESH_TOKEN' | 'REFRESH_TOKEN_REUSED' | 'SESSION_REVOKED';
+  session?: IssuedSession & { businessId: string; staffId: string | null };
+}
+
+/**
+ * How long a business session (and its refresh tokens) may live
+ */
+const getRefreshLifetimeMs = (rememberMe: boolean): number => {
+  return parseDuration(rememberMe
+    ? process.env.JWT_REFRESH_REMEMBER_EXPIRES_IN || '30d'
+    : process.env.JWT_REFRESH_EXPIRES_IN || '1d');
+};
+
+export class SessionService {
+  /**
+   * Create a session for a business with an access token and the first refresh token
+   */
+  static async createBusinessSession(
+    businessId: string,
+    context: ClientContext = {},
+    rememberMe: boolean = false,
+    staffId?: string
+  ): Promise<IssuedSession> {
+    const sessionId = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + getRefreshLifetimeMs(rememberMe));
+
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        businessId,
+        staffId,
+        expiresAt,
+        rememberMe,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+
+    const refreshToken = await this.issueRefreshToken(sessionId, expiresAt);
+    const token = generateBusinessToken(businessId, sessionId, staffId);
+
+    return { sessionId, token, expiresAt, refreshToken, rememberMe };
+  }
+
+  /**
+   * Store a new refresh token for a session
+   */
+  private static async issueRefreshToken(sessionId: string, expiresAt: Date, db: DbClient = prisma): Promise<string> {
+    const refreshToken = generateRefreshToken();
+
+    await db.refreshToken.create({
+      data: {
+        sessionId,
+        expiresAt,
+        tokenHash: hashToken(refreshToken)
+      }
+    });
+
+    return refreshToken;
+  }
+
+  /**
+   * Create a session for a customer and sign a token bound to it
+   */
+  static async createCustomerSession(
+    customerId: string,
+    businessId: string,
+    context: ClientContext = {}
+  ): Promise<IssuedSession> {
+    const sessionId = crypto.randomUUID();
+    const token = generateCustomerToken(customerId, businessId, sessionId);
+    const expiresAt = getTokenExpiration(token) as Date;
+
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        customerId,
+        expiresAt,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+
+    return { sessionId, token, expiresAt };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * A refresh token that was already rotated kills its whole family (the session)
+   */
+  static async rotateRefreshToken(refreshToken: string, context: ClientContext = {}): Promise<RefreshResult> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { session: true }
+    });
+
+    if (!stored || !stored.session.businessId) {
+      return {
+        success: false,
+        error: 'Invalid refresh token',
+        code: 'INVALID_REFRESH_TOKEN'
+      };
+    }
+
+    const { session } = stored;
+    const businessId = stored.session.businessId;
+
+    if (session.revokedAt || session.expiresAt.getTime() < Date.now() || stored.expiresAt.getTime() < Date.now()) {
+      return {
+        success: false,
+        error: 'Session is no longer valid. Please sign in again.',
+        code: 'SESSION_REVOKED'
+      };
+    }
+
+    const reuseDetected = async (): Promise<RefreshResult> => {
+      await this.revokeSession(session.id);
+      console.warn(`⚠️  Refresh token reuse detected, session ${session.id} revoked`);
+      await AuditLogService.record({
+        businessId,
+        action: 'auth.refresh_token_reused',
+        audit: { actor: null, ...context },
+        targetType: 'session',
+        targetId: session.id
+      });
+
+      return {
+        success: false,
+        error: 'Refresh token has already been used. Please sign in again.',
+        code: 'REFRESH_TOKEN_REUSED'
+      };
+    };
+
+    if (stored.usedAt) {
+      return reuseDetected();
+    }
+
+    const newRefreshToken = await prisma.$transaction(async tx => {
+      // Only one caller can win the rotation of a given token
+      const consumed = await tx.refreshToken.updateMany({
+        where: { id: stored.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+
+      if (consumed.count === 0) {
+        return null;
+      }
+
+      await tx.session.update({
+        where: { id: session.id },
+        data: { lastSeenAt: new Date(), ipAddress: context.ipAddress }
+      });
+
+      return this.issueRefreshToken(session.id, session.expiresAt, tx);
+    });
+
+    if (!newRefreshToken) {
+      return reuseDetected();
+    }
+
+    return {
+      success: true,
+      session: {
+        sessionId: session.id,
+        businessId,
+        staffId: session.staffId,
+        token: generateBusinessToken(businessId, session.id, session.staffId),
+        expiresAt: session.expiresAt,
+        refreshToken: newRefreshToken,
+        rememberMe: session.rememberMe
+      }
+    };
+  }
+
+  /**
+   * Check that a session is still usable and record activity
+   * @returns boolean - False if the session is unknown, revoked or expired
+   */
+  static async touchSession(sessionId: string, context: ClientContext = {}): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, revokedAt: true, expiresAt: true, lastSeenAt: true }
+    });
+
+    if (!session || session.revokedAt || session.expiresAt.getTime() < Date.now()) {
+      return false;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { lastSeenAt: new Date(), ipAddress: context.ipAddress }
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * List a business's active sessions, newest activity first
+   */
+  static async listBusinessSessions(businessId: string, currentSessionId?: string) {
+    const sessions = await prisma.session.findMany({
+      where: {
+        businessId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { lastSeenAt: 'desc' },
+      select: {
+        id: true,
+        createdAt: true,
+        lastSeenAt: true,
+        expiresAt: true,
+        ipAddress: true,
+        userAgent: true,
+        staff: {
+          select: { id: true, name: true, role: true }
+        }
+      }
+    });
+
+    return sessions.map(session => ({
+      ...session,
+      device: describeUserAgent(session.userAgent),
+      isCurrent: session.id === currentSessionId
+    }));
+  }
+
+  /**
+   * Revoke one session
+   * @param businessId - When given, the session must belong to this business
+   * @returns boolean - True if an active session was revoked
+   */
+  static async revokeSession(sessionId: string, businessId?: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        revokedAt: null,
+        ...(businessId ? { businessId } : {})
+      },
+      data: { revokedAt: new Date() }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke the business session a refresh token belongs to
+   * Lets a client sign out after its access token has expired
+   * @returns The revoked session, or null if the token is unknown or the session already ended
+   */
+  static async revokeByRefreshToken(refreshToken: string): Promise<{ id: string; businessId: string } | null> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      select: { session: { select: { id: true, businessId: true } } }
+    });
+
+    if (!stored || !stored.session.businessId) {
+      return null;
+    }
+
+    const revoked = await this.revokeSession(stored.session.id);
+
+    return revoked ? { id: stored.session.id, businessId: stored.session.businessId } : null;
+  }
+
+  /**
+   * Revoke every active session for a business ("sign out all devices")
+   * @returns number - How many sessions were revoked
+   */
+  static async revokeAllBusinessSessions(businessId: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: { businessId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Revoke every active session for one staff member
+   * @returns number - How many sessions were revoked
+   */
+  static async revokeAllStaffSessions(staffId: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: { staffId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return result.count;
+  }
+}
@@ -0,0 +1,130 @@
+import { logError } from '../utils/errorHandler';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+  sentAt: Date;
+}
+
+/**
+ * Anything that can deliver a text message
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(to: string, body: string): Promise<void>;
+}
+
+/**
+ * Prints messages to the console - default for local development
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+
+  async send(to: string, body: string): Promise<void> {
+    console.log(`📱 SMS to ${to}: ${body}`);
+  }
+}
+
+/**
+ * Keeps messages in memory so tests can read the codes that were sent
+ */
+export class InMemorySmsProvider implements SmsProvider {
+  readonly name = 'memory';
+  readonly messages: SmsMessage[] = [];
+
+  async send(to: string, body: string): Promise<void> {
+    this.messages.push({ to, body, sentAt: new Date() });
+  }
+
+  lastMessageTo(to: string): SmsMessage | undefined {
+    return [...this.messages].reverse().find(message => message.to === to);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+/**
+ * Sends messages through the Twilio REST API
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string,
+    private readonly fromNumber: string
+  ) {}
+
+  async send(to: string, body: string): Promise<void> {
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
+    const credentials = Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64');
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: to, From: this.fromNumber, Body: body }).toString()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio responded with ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+export class SmsService {
+  private static provider: SmsProvider | null = null;
+
+  /**
+   * Pick a provider from the environment
+   * SMS_PROVIDER=twilio|console|memory, defaults to twilio when credentials are set
+   */
+  private static createProvider(): SmsProvider {
+    const { SMS_PROVIDER, TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+    const hasTwilio = !!(TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_PHONE_NUMBER);
+
+    if (SMS_PROVIDER === 'memory') {
+      return new InMemorySmsProvider();
+    }
+
+    if (SMS_PROVIDER === 'twilio' || (!SMS_PROVIDER && hasTwilio)) {
+      if (!hasTwilio) {
+        throw new Error('Twilio SMS provider selected but TWILIO_* variables are not set');
+      }
+      return new TwilioSmsProvider(TWILIO_ACCOUNT_SID!, TWILIO_AUTH_TOKEN!, TWILIO_PHONE_NUMBER!);
+    }
+
+    return new ConsoleSmsProvider();
+  }
+
+  static getProvider(): SmsProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Override the provider (used by tests and scripts)
+   */
+  static setProvider(provider: SmsProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Send a text message, returning false instead of throwing on delivery failure
+   */
+  static async send(to: string, body: string): Promise<boolean> {
+    try {
+      await this.getProvider().send(to, body);
+      return true;
+    } catch (error) {
+      logError(`SMS delivery via ${this.getProvider().name}`, error);
+      return false;
+    }
+  }
+}
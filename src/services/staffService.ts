@@ -0,0 +1,316 @@
+import { prisma } from '../app';
+import { MailService } from './mailService';
+import { SessionService } from './sessionService';
+import { LoginThrottleService } from './loginThrottleService';
+import { AuditLogService, diffChanges } from './auditLogService';
+import { hashPassword, comparePassword, generateSecureToken, hashToken } from '../utils/auth';
+import { isPrismaUniqueConstraintError } from '../utils/errorHandler';
+import { staffActor } from '../utils/requestContext';
+import { AuthResult, ClientContext, StaffInviteData, StaffRole } from '../types/auth';
+import { ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Invites are valid for 7 days
+
+const staffSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  isActive: true,
+  acceptedAt: true,
+  inviteExpiresAt: true,
+  createdAt: true
+};
+
+export class StaffService {
+  /**
+   * List every staff member of a business
+   */
+  static async listStaff(businessId: string) {
+    try {
+      const staff = await prisma.staffMember.findMany({
+        where: { businessId },
+        orderBy: { createdAt: 'asc' },
+        select: staffSelect
+      });
+
+      return staff.map(member => ({
+        ...member,
+        status: !member.isActive ? 'inactive' : member.acceptedAt ? 'active' : 'invited'
+      }));
+    } catch (error) {
+      console.error('❌ List staff error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Invite a staff member by email (re-inviting a pending member sends a fresh link)
+   */
+  static async inviteStaff(businessId: string, inviteData: StaffInviteData, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      const email = inviteData.email.toLowerCase().trim();
+
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { id: true, name: true }
+      });
+
+      if (!business) {
+        return { success: false, error: 'Business not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      const existing = await prisma.staffMember.findUnique({ where: { email } });
+
+      if (existing && (existing.businessId !== businessId || existing.acceptedAt)) {
+        return {
+          success: false,
+          error: 'A staff account with this email already exists',
+          code: 'EMAIL_IN_USE'
+        };
+      }
+
+      const token = generateSecureToken(40);
+      const inviteFields = {
+        name: inviteData.name.trim(),
+        role: inviteData.role,
+        isActive: true,
+        inviteTokenHash: hashToken(token),
+        inviteExpiresAt: new Date(Date.now() + INVITE_TTL_MS)
+      };
+
+      const staff = existing
+        ? await prisma.staffMember.update({
+            where: { id: existing.id },
+            data: inviteFields,
+            select: staffSelect
+          })
+        : await prisma.staffMember.create({
+            data: { ...inviteFields, email, businessId },
+            select: staffSelect
+          });
+
+      await MailService.sendStaffInvite(email, staff.name, business.name, staff.role, token);
+
+      console.log(`👥 Staff invited to ${business.name}: ${email} (${staff.role})`);
+      await AuditLogService.record({
+        businessId,
+        action: 'staff.invited',
+        audit,
+        targetType: 'staff',
+        targetId: staff.id,
+        metadata: { email, role: staff.role }
+      });
+
+      return { success: true, data: staff };
+    } catch (error) {
+      console.error('❌ Invite staff error:', error);
+
+      if (isPrismaUniqueConstraintError(error)) {
+        return {
+          success: false,
+          error: 'A staff account with this email already exists',
+          code: 'EMAIL_IN_USE'
+        };
+      }
+
+      return { success: false, error: 'Failed to invite staff member' };
+    }
+  }
+
+  /**
+   * Change a staff member's role or active flag
+   */
+  static async updateStaff(
+    businessId: string,
+    staffId: string,
+    updateData: { role?: StaffRole; isActive?: boolean; name?: string },
+    audit: AuditContext
+  ): Promise<ServiceResult> {
+    try {
+      const existing = await prisma.staffMember.findFirst({
+        where: { id: staffId, businessId },
+        select: { id: true, name: true, role: true, isActive: true }
+      });
+
+      if (!existing) {
+        return { success: false, error: 'Staff member not found', code: 'STAFF_NOT_FOUND' };
+      }
+
+      const staff = await prisma.staffMember.update({
+        where: { id: staffId },
+        data: {
+          role: updateData.role,
+          isActive: updateData.isActive,
+          name: updateData.name?.trim()
+        },
+        select: staffSelect
+      });
+
+      // Role changes and deactivation take effect on the next sign-in
+      if (updateData.isActive === false || updateData.role !== undefined) {
+        await SessionService.revokeAllStaffSessions(staffId);
+      }
+
+      await AuditLogService.record({
+        businessId,
+        action: 'staff.updated',
+        audit,
+        targetType: 'staff',
+        targetId: staffId,
+        changes: diffChanges(existing, { name: staff.name, role: staff.role, isActive: staff.isActive })
+      });
+
+      return { success: true, data: staff };
+    } catch (error) {
+      console.error('❌ Update staff error:', error);
+      return { success: false, error: 'Failed to update staff member' };
+    }
+  }
+
+  /**
+   * Accept an invite by choosing a password, then sign the staff member in
+   */
+  static async acceptInvite(token: string, password: string, context: ClientContext = {}): Promise<AuthResult> {
+    try {
+      const staff = await prisma.staffMember.findUnique({
+        where: { inviteTokenHash: hashToken(token) },
+        include: { business: { select: { id: true, name: true } } }
+      });
+
+      if (!staff || !staff.isActive || !staff.inviteExpiresAt || staff.inviteExpiresAt.getTime() < Date.now()) {
+        return {
+          success: false,
+          error: 'Invite link is invalid or has expired'
+        };
+      }
+
+      await prisma.staffMember.update({
+        where: { id: staff.id },
+        data: {
+          password: await hashPassword(password),
+          acceptedAt: new Date(),
+          inviteTokenHash: null,
+          inviteExpiresAt: null
+        }
+      });
+
+      const session = await SessionService.createBusinessSession(staff.businessId, context, false, staff.id);
+
+      console.log(`👥 Staff invite accepted: ${staff.email} (${staff.business.name})`);
+      await AuditLogService.record({
+        businessId: staff.businessId,
+        action: 'staff.invite_accepted',
+        audit: { actor: staffActor(staff), ...context },
+        targetType: 'staff',
+        targetId: staff.id
+      });
+
+      return {
+        success: true,
+        data: {
+          business: {
+            id: staff.business.id,
+            name: staff.business.name,
+            staff: { id: staff.id, name: staff.name, email: staff.email, role: staff.role }
+          },
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresAt: session.expiresAt
+        }
+      };
+    } catch (error) {
+      console.error('❌ Accept invite error:', error);
+      return {
+        success: false,
+        error: 'Failed to accept invite'
+      };
+    }
+  }
+
+  /**
+   * Authenticate a staff member with email and password
+   */
+  static async authenticateStaff(
+    email: string,
+    password: string,
+    context: ClientContext = {},
+    rememberMe: boolean = false
+  ): Promise<AuthResult> {
+    try {
+      const throttle = await LoginThrottleService.checkAllowed(email, context);
+      if (!throttle.allowed) {
+        return {
+          success: false,
+          error: throttle.error,
+          code: throttle.code,
+          retryAfter: throttle.retryAfter
+        };
+      }
+
+      const staff = await prisma.staffMember.findUnique({
+        where: { email: email.toLowerCase().trim() },
+        include: { business: { select: { id: true, name: true, email: true, isVerified: true } } }
+      });
+
+      if (!staff || !staff.password || !staff.isActive) {
+        await LoginThrottleService.recordFailure(email, context);
+        return {
+          success: false,
+          error: 'Invalid email or password'
+        };
+      }
+
+      const isPasswordValid = await comparePassword(password, staff.password);
+      if (!isPasswordValid) {
+        await LoginThrottleService.recordFailure(email, context);
+        await AuditLogService.record({
+          businessId: staff.businessId,
+          action: 'auth.signin_failed',
+          audit: { actor: null, ...context },
+          targetType: 'staff',
+          targetId: staff.id,
+          metadata: { reason: 'invalid_password' }
+        });
+        return {
+          success: false,
+          error: 'Invalid email or password'
+        };
+      }
+
+      await LoginThrottleService.recordSuccess(email);
+
+      const session = await SessionService.createBusinessSession(staff.businessId, context, rememberMe, staff.id);
+
+      console.log(`🔐 Staff signin: ${staff.name} (${staff.email}) at ${staff.business.name}`);
+      await AuditLogService.record({
+        businessId: staff.businessId,
+        action: 'auth.signin',
+        audit: { actor: staffActor(staff), ...context },
+        targetType: 'session',
+        targetId: session.sessionId,
+        metadata: { rememberMe }
+      });
+
+      return {
+        success: true,
+        data: {
+          business: {
+            ...staff.business,
+            staff: { id: staff.id, name: staff.name, email: staff.email, role: staff.role }
+          },
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresAt: session.expiresAt
+        }
+      };
+    } catch (error) {
+      console.error('❌ Authenticate staff error:', error);
+      return {
+        success: false,
+        error: 'Authentication failed'
+      };
+    }
+  }
+}
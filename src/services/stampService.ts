@@ -0,0 +1,1006 @@
+import jwt from 'jsonwebtoken';
+import { LoyaltyProgram, Prisma } from '@prisma/client';
+import { prisma } from '../app';
+import { MailService } from './mailService';
+import { AuditLogService } from './auditLogService';
+import { EventService } from './eventService';
+import { FraudService } from './fraudService';
+import { LedgerService, VISIT_SOURCES } from './ledgerService';
+import { MembershipService } from './membershipService';
+import { ProgramService, programScope } from './programService';
+import { generateQrToken, generateUniqueId, getTokenExpiration, normalizePhone, QrTokenPayload } from '../utils/auth';
+import { isPrismaError, isPrismaUniqueConstraintError, logError } from '../utils/errorHandler';
+import { verifyWithKeyRing } from '../utils/keyRing';
+import { calculateStamps } from '../utils/stampRules';
+import { verifyTotp } from '../utils/totp';
+import { Actor } from '../types/auth';
+import { ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+import {
+  ManualGrantData,
+  ManualGrantResult,
+  PurchaseDetails,
+  QrClaimResult,
+  QrGenerationData,
+  QrStatus,
+  StampCalculation,
+  StampBonusRule,
+  StampAttempt,
+  StampRuleSettings,
+  StampTransactionFilters,
+  StampTransactionStatus,
+  StampTransactionTotals,
+  StampVoidData,
+  StampVoidResult
+} from '../types/stamps';
+
+/**
+ * How a transaction stands after corrections, for display in history
+ */
+const getTransactionStatus = (transaction: {
+  reversalOfId: string | null;
+  voidedAt: Date | null;
+  reversedStamps: number;
+}): StampTransactionStatus => {
+  if (transaction.reversalOfId) return 'reversal';
+  if (transaction.voidedAt) return 'voided';
+  return transaction.reversedStamps > 0 ? 'partially_voided' : 'active';
+};
+
+/**
+ * Tell the counter screen when a QR code runs out unclaimed
+ * Best effort: a restart drops pending timers, and the screen can still poll the status
+ */
+const scheduleQrExpiryEvent = (businessId: string, qrId: string, expiresAt: Date): void => {
+  const timer = setTimeout(async () => {
+    try {
+      const qrCode = await prisma.qrCode.findUnique({ where: { qrId }, select: { claimedAt: true } });
+      if (qrCode && !qrCode.claimedAt) {
+        await EventService.publish(businessId, 'qr.expired', { qrId, expiresAt });
+      }
+    } catch (error) {
+      logError('QR expiry event', error);
+    }
+  }, Math.max(expiresAt.getTime() - Date.now(), 0) + 1000);
+
+  // Don't hold the process open for it
+  timer.unref();
+};
+
+export class StampService {
+  /**
+   * A program's stamp rules (the business's where the program doesn't override them)
+   * plus the promotions running at a given moment
+   * @returns null if the business or an active program with that ID doesn't exist
+   */
+  private static async loadStampRules(businessId: string, programId: string | undefined, at: Date = new Date()) {
+    const program = await ProgramService.resolve(prisma, businessId, programId);
+
+    if (!program) return null;
+
+    const business = await prisma.business.findUnique({
+      where: { id: businessId },
+      select: {
+        id: true,
+        stampsPerVisit: true,
+        minSpendForStamp: true,
+        spendPerStamp: true,
+        stampBonusRules: true,
+        maxStampsPerVisit: true,
+        stampsForReward: true,
+        timezone: true
+      }
+    });
+
+    if (!business) return null;
+
+    const promotions = await prisma.promotion.findMany({
+      where: {
+        businessId,
+        isActive: true,
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: at } }] },
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: at } }] }
+        ]
+      },
+      select: { id: true, title: true, type: true }
+    });
+
+    const rules: StampRuleSettings = {
+      stampsPerVisit: program.stampsPerVisit ?? business.stampsPerVisit,
+      minSpendForStamp: program.minSpendForStamp ?? business.minSpendForStamp,
+      spendPerStamp: program.spendPerStamp ?? business.spendPerStamp,
+      maxStampsPerVisit: program.maxStampsPerVisit ?? business.maxStampsPerVisit,
+      bonusRules: ((program.stampBonusRules ?? business.stampBonusRules) as StampBonusRule[] | null) || [],
+      timezone: business.timezone
+    };
+
+    // Other programs unlock at their cheapest reward
+    const cheapestTier = program.isDefault ? null : await prisma.rewardTier.findFirst({
+      where: { businessId, programId: program.id, isActive: true },
+      orderBy: { stampCost: 'asc' },
+      select: { stampCost: true }
+    });
+    const stampsForReward = cheapestTier?.stampCost ?? business.stampsForReward;
+
+    return { business, program, rules, promotions, stampsForReward };
+  }
+
+  /**
+   * Stamps for a visit: an explicit value (within the per-visit cap) or the rules applied to the purchase
+   */
+  private static async resolveStamps(
+    businessId: string,
+    programId: string | undefined,
+    stampsValue: number | undefined,
+    purchase: PurchaseDetails | undefined
+  ): Promise<ServiceResult<{ stamps: number; calculation: StampCalculation | null; stampsForReward: number; program: LoyaltyProgram }>> {
+    const context = await this.loadStampRules(businessId, programId, purchase?.purchasedAt);
+
+    if (!context) {
+      return programId
+        ? { success: false, error: 'Loyalty program not found', code: 'PROGRAM_NOT_FOUND' }
+        : { success: false, error: 'Business not found', code: 'BUSINESS_NOT_FOUND' };
+    }
+
+    const { program, rules, promotions, stampsForReward } = context;
+
+    if (stampsValue !== undefined) {
+      if (stampsValue > rules.maxStampsPerVisit) {
+        return {
+          success: false,
+          error: `A visit can earn at most ${rules.maxStampsPerVisit} stamps`,
+          code: 'STAMPS_EXCEED_MAX'
+        };
+      }
+
+      return { success: true, data: { stamps: stampsValue, calculation: null, stampsForReward, program } };
+    }
+
+    const calculation = calculateStamps(rules, purchase, promotions);
+
+    if (calculation.belowMinSpend) {
+      return {
+        success: false,
+        error: `Purchases under ${rules.minSpendForStamp.toFixed(2)} don't earn stamps`,
+        code: 'BELOW_MIN_SPEND'
+      };
+    }
+
+    if (calculation.stamps === 0) {
+      return { success: false, error: 'This purchase does not earn any stamps', code: 'NO_STAMPS_EARNED' };
+    }
+
+    return { success: true, data: { stamps: calculation.stamps, calculation, stampsForReward, program } };
+  }
+
+  /**
+   * Dry run: how many stamps a purchase would earn right now, without issuing any
+   */
+  static async previewStamps(
+    businessId: string,
+    programId: string | undefined,
+    purchase: PurchaseDetails
+  ): Promise<ServiceResult<StampCalculation>> {
+    try {
+      const context = await this.loadStampRules(businessId, programId, purchase.purchasedAt);
+
+      if (!context) {
+        return programId
+          ? { success: false, error: 'Loyalty program not found', code: 'PROGRAM_NOT_FOUND' }
+          : { success: false, error: 'Business not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      return { success: true, data: calculateStamps(context.rules, purchase, context.promotions) };
+    } catch (error) {
+      console.error('❌ Preview stamps error:', error);
+      return { success: false, error: 'Failed to preview stamps' };
+    }
+  }
+
+  /**
+   * Create a one-time QR code worth a number of stamps
+   * Stamps come from the stamp rules (applied to the purchase, if given) unless stampsValue overrides them
+   */
+  static async generateQr(businessId: string, qrData: QrGenerationData, actor: Actor): Promise<ServiceResult> {
+    try {
+      const resolved = await this.resolveStamps(businessId, qrData.programId, qrData.stampsValue, qrData.purchase);
+
+      if (!resolved.success || !resolved.data) {
+        return { success: false, error: resolved.error, code: resolved.code };
+      }
+
+      const { stamps, calculation, program } = resolved.data;
+
+      const qrId = generateUniqueId();
+      const token = generateQrToken(businessId, stamps, qrId);
+      const expiresAt = getTokenExpiration(token) as Date;
+
+      await prisma.qrCode.create({
+        data: {
+          qrId,
+          stampsValue: stamps,
+          purchaseAmount: qrData.purchase?.amount ?? null,
+          expiresAt,
+          businessId,
+          programId: program.id,
+          staffId: actor.staffId
+        }
+      });
+
+      scheduleQrExpiryEvent(businessId, qrId, expiresAt);
+
+      return {
+        success: true,
+        data: {
+          qrId,
+          token,
+          claimUrl: MailService.frontendLink('/claim', { token }),
+          programId: program.id,
+          stampsValue: stamps,
+          calculation,
+          expiresAt
+        }
+      };
+    } catch (error) {
+      console.error('❌ Generate QR error:', error);
+      return { success: false, error: 'Failed to generate QR code' };
+    }
+  }
+
+  /**
+   * Claim a scanned QR code for a signed-in customer
+   * The QR code is consumed and the stamps credited in one transaction
+   * @param businessId - Business the customer signed in to
+   */
+  static async claimQr(
+    customerId: string,
+    businessId: string,
+    token: string,
+    audit: AuditContext
+  ): Promise<ServiceResult<QrClaimResult>> {
+    let payload: QrTokenPayload;
+    try {
+      payload = verifyWithKeyRing('qr', token);
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return { success: false, error: 'This QR code has expired. Ask for a new one.', code: 'QR_EXPIRED' };
+      }
+      return { success: false, error: 'This QR code is not valid', code: 'INVALID_QR' };
+    }
+
+    try {
+      const [qrCode, customer] = await Promise.all([
+        prisma.qrCode.findUnique({ where: { qrId: payload.qrId } }),
+        prisma.customer.findUnique({
+          where: { id: customerId },
+          select: { id: true, firstName: true, lastName: true }
+        })
+      ]);
+
+      if (!qrCode || !customer) {
+        return { success: false, error: 'This QR code is not valid', code: 'INVALID_QR' };
+      }
+
+      if (qrCode.businessId !== businessId) {
+        return { success: false, error: 'This QR code belongs to a different business', code: 'QR_WRONG_BUSINESS' };
+      }
+
+      if (qrCode.claimedAt) {
+        return { success: false, error: 'This QR code has already been claimed', code: 'QR_ALREADY_CLAIMED' };
+      }
+
+      if (qrCode.expiresAt.getTime() < Date.now()) {
+        return { success: false, error: 'This QR code has expired. Ask for a new one.', code: 'QR_EXPIRED' };
+      }
+
+      const program = await ProgramService.getProgramOf(prisma, qrCode.businessId, qrCode.programId);
+
+      if (!program) {
+        return { success: false, error: 'This QR code is not valid', code: 'INVALID_QR' };
+      }
+
+      const attempt: StampAttempt = {
+        businessId: qrCode.businessId,
+        programId: program.id,
+        source: 'qr_scan',
+        stamps: qrCode.stampsValue,
+        customerId: customer.id,
+        staffId: qrCode.staffId,
+        qrId: qrCode.qrId,
+        purchaseAmount: qrCode.purchaseAmount ?? undefined
+      };
+
+      // Serializable so concurrent claims can't all pass the fraud rules' daily caps
+      const claimed = await prisma.$transaction(async tx => {
+        const fraudCheck = await FraudService.check(tx, attempt);
+
+        if (!fraudCheck.allowed) {
+          return { blocked: fraudCheck };
+        }
+
+        // Only one customer can win the claim of a given QR code
+        const consumed = await tx.qrCode.updateMany({
+          where: { id: qrCode.id, claimedAt: null },
+          data: { claimedAt: new Date(), customerId: customer.id }
+        });
+
+        if (consumed.count === 0) {
+          return null;
+        }
+
+        const transaction = await tx.stampTransaction.create({
+          data: {
+            stampsAwarded: qrCode.stampsValue,
+            qrId: qrCode.qrId,
+            source: 'qr_scan',
+            purchaseAmount: qrCode.purchaseAmount,
+            customerId: customer.id,
+            businessId: qrCode.businessId,
+            programId: program.id,
+            staffId: qrCode.staffId
+          }
+        });
+
+        const counters = await LedgerService.post(tx, {
+          type: 'earn',
+          stamps: qrCode.stampsValue,
+          customerId: customer.id,
+          businessId: qrCode.businessId,
+          programId: program.id,
+          stampTransactionId: transaction.id,
+          visits: 1
+        });
+
+        return { counters, programStamps: await LedgerService.getProgramBalance(tx, customer.id, program) };
+      }, { isolationLevel: 'Serializable' });
+
+      if (!claimed) {
+        return { success: false, error: 'This QR code has already been claimed', code: 'QR_ALREADY_CLAIMED' };
+      }
+
+      if (claimed.blocked) {
+        return FraudService.flag(attempt, claimed.blocked, audit);
+      }
+
+      console.log(`⭐ QR claimed: ${qrCode.stampsValue} stamps for customer ${customer.id}`);
+      await EventService.publish(qrCode.businessId, 'qr.claimed', {
+        qrId: qrCode.qrId,
+        programId: program.id,
+        stampsAwarded: qrCode.stampsValue,
+        customer: { id: customer.id, firstName: customer.firstName, lastName: customer.lastName },
+        programStamps: claimed.programStamps,
+        totalStamps: claimed.counters.totalStamps
+      });
+
+      return {
+        success: true,
+        data: {
+          programId: program.id,
+          stampsAwarded: qrCode.stampsValue,
+          programStamps: claimed.programStamps,
+          totalStamps: claimed.counters.totalStamps,
+          totalVisits: claimed.counters.totalVisits
+        }
+      };
+    } catch (error) {
+      // The unique qrId on StampTransaction is the last line of defence
+      if (isPrismaUniqueConstraintError(error)) {
+        return { success: false, error: 'This QR code has already been claimed', code: 'QR_ALREADY_CLAIMED' };
+      }
+
+      // Serialization failure - other stamps for the customer or staff member were issued at the same moment
+      if (isPrismaError(error) && error.code === 'P2034') {
+        return { success: false, error: 'Stamps were just issued elsewhere. Please try again.', code: 'STAMPS_CONFLICT' };
+      }
+
+      console.error('❌ Claim QR error:', error);
+      return { success: false, error: 'Failed to claim QR code' };
+    }
+  }
+
+  /**
+   * Customer scans the QR on a counter display; the code must match the current (or adjacent) window
+   * One stamp per customer per displayClaimCooldownMinutes, so a photo of the screen can't be farmed
+   */
+  static async claimDisplay(
+    customerId: string,
+    businessId: string,
+    displayId: string,
+    code: string,
+    audit: AuditContext
+  ): Promise<ServiceResult<QrClaimResult>> {
+    try {
+      const [display, customer] = await Promise.all([
+        prisma.counterDisplay.findUnique({
+          where: { id: displayId },
+          include: { business: { select: { displayClaimCooldownMinutes: true } } }
+        }),
+        prisma.customer.findUnique({
+          where: { id: customerId },
+          select: { id: true, firstName: true, lastName: true }
+        })
+      ]);
+
+      if (!display || display.revokedAt || !customer) {
+        return { success: false, error: 'This code is not valid', code: 'INVALID_DISPLAY_CODE' };
+      }
+
+      if (display.businessId !== businessId) {
+        return { success: false, error: 'This QR code belongs to a different business', code: 'QR_WRONG_BUSINESS' };
+      }
+
+      if (verifyTotp(display.secret, code, 1, display.rotationSeconds) === null) {
+        return { success: false, error: 'This code has changed. Scan the screen again.', code: 'INVALID_DISPLAY_CODE' };
+      }
+
+      const resolved = await this.resolveStamps(
+        display.businessId,
+        display.programId ?? undefined,
+        display.stampsValue ?? undefined,
+        undefined
+      );
+
+      if (!resolved.success || !resolved.data) {
+        return { success: false, error: resolved.error, code: resolved.code };
+      }
+
+      const { stamps, program } = resolved.data;
+
+      const attempt: StampAttempt = {
+        businessId: display.businessId,
+        programId: program.id,
+        source: 'counter_display',
+        stamps,
+        customerId: customer.id,
+        counterDisplayId: display.id
+      };
+
+      const cooldownMs = display.business.displayClaimCooldownMinutes * 60 * 1000;
+
+      // Serializable so two scans at once can't both pass the cooldown check or the fraud rules
+      const claimed = await prisma.$transaction(async tx => {
+        const fraudCheck = await FraudService.check(tx, attempt);
+
+        if (!fraudCheck.allowed) {
+          return { blocked: fraudCheck };
+        }
+
+        const lastClaim = await tx.stampTransaction.findFirst({
+          where: {
+            customerId: customer.id,
+            businessId: display.businessId,
+            source: 'counter_display',
+            reversalOfId: null,
+            createdAt: { gt: new Date(Date.now() - cooldownMs) }
+          },
+          orderBy: { createdAt: 'desc' },
+          select: { createdAt: true }
+        });
+
+        if (lastClaim) {
+          return { nextClaimAt: new Date(lastClaim.createdAt.getTime() + cooldownMs) };
+        }
+
+        const transaction = await tx.stampTransaction.create({
+          data: {
+            stampsAwarded: stamps,
+            source: 'counter_display',
+            customerId: customer.id,
+            businessId: display.businessId,
+            programId: program.id,
+            counterDisplayId: display.id
+          }
+        });
+
+        await tx.counterDisplay.update({
+          where: { id: display.id },
+          data: { lastClaimAt: new Date() }
+        });
+
+        const counters = await LedgerService.post(tx, {
+          type: 'earn',
+          stamps,
+          customerId: customer.id,
+          businessId: display.businessId,
+          programId: program.id,
+          stampTransactionId: transaction.id,
+          visits: 1
+        });
+
+        return { counters, programStamps: await LedgerService.getProgramBalance(tx, customer.id, program) };
+      }, { isolationLevel: 'Serializable' });
+
+      if (claimed.blocked) {
+        return FraudService.flag(attempt, claimed.blocked, audit);
+      }
+
+      if (claimed.nextClaimAt) {
+        const retryAfter = Math.ceil((claimed.nextClaimAt.getTime() - Date.now()) / 1000);
+        return {
+          success: false,
+          error: `You already collected a stamp here. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+          code: 'CLAIM_COOLDOWN',
+          retryAfter
+        };
+      }
+
+      console.log(`⭐ Counter display claimed: ${stamps} stamps for customer ${customer.id}`);
+      await EventService.publish(display.businessId, 'display.claimed', {
+        displayId: display.id,
+        programId: program.id,
+        stampsAwarded: stamps,
+        customer: { id: customer.id, firstName: customer.firstName, lastName: customer.lastName },
+        programStamps: claimed.programStamps,
+        totalStamps: claimed.counters.totalStamps
+      });
+
+      return {
+        success: true,
+        data: {
+          programId: program.id,
+          stampsAwarded: stamps,
+          programStamps: claimed.programStamps,
+          totalStamps: claimed.counters.totalStamps,
+          totalVisits: claimed.counters.totalVisits
+        }
+      };
+    } catch (error) {
+      // Serialization failure - the same customer scanned twice at once
+      if (isPrismaError(error) && error.code === 'P2034') {
+        return { success: false, error: 'You already collected a stamp here.', code: 'CLAIM_COOLDOWN' };
+      }
+
+      console.error('❌ Claim counter display error:', error);
+      return { success: false, error: 'Failed to claim stamps' };
+    }
+  }
+
+  /**
+   * Status of a QR code, polled by the business screen that shows it
+   */
+  static async getQrStatus(businessId: string, qrId: string): Promise<ServiceResult<QrStatus>> {
+    try {
+      const qrCode = await prisma.qrCode.findFirst({
+        where: { qrId, businessId },
+        include: {
+          customer: { select: { id: true, firstName: true, lastName: true, phone: true } }
+        }
+      });
+
+      if (!qrCode) {
+        return { success: false, error: 'QR code not found', code: 'QR_NOT_FOUND' };
+      }
+
+      const status = qrCode.claimedAt
+        ? 'claimed'
+        : qrCode.expiresAt.getTime() < Date.now() ? 'expired' : 'pending';
+
+      return {
+        success: true,
+        data: {
+          qrId: qrCode.qrId,
+          status,
+          stampsValue: qrCode.stampsValue,
+          expiresAt: qrCode.expiresAt,
+          claimedAt: qrCode.claimedAt,
+          customer: qrCode.customer
+        }
+      };
+    } catch (error) {
+      console.error('❌ Get QR status error:', error);
+      return { success: false, error: 'Failed to get QR code status' };
+    }
+  }
+
+  /**
+   * Give stamps to a walk-in customer by phone number, creating the customer if needed
+   */
+  static async grantManual(
+    businessId: string,
+    grantData: ManualGrantData,
+    audit: AuditContext
+  ): Promise<ServiceResult<ManualGrantResult>> {
+    try {
+      const phone = normalizePhone(grantData.customerPhone);
+
+      const resolved = await this.resolveStamps(businessId, grantData.programId, grantData.stampsValue, grantData.purchase);
+
+      if (!resolved.success || !resolved.data) {
+        return { success: false, error: resolved.error, code: resolved.code };
+      }
+
+      const { stamps, calculation, stampsForReward, program } = resolved.data;
+
+      // The person may already be a customer of another business on the platform
+      const existingCustomer = await prisma.customer.findUnique({ where: { phone } });
+      const existingMembership = existingCustomer && await MembershipService.find(prisma, existingCustomer.id, businessId);
+
+      const attempt: StampAttempt = {
+        businessId,
+        programId: program.id,
+        source: 'manual',
+        stamps,
+        customerId: existingCustomer?.id ?? null,
+        staffId: audit.actor?.staffId ?? null,
+        customerPhone: phone,
+        purchaseAmount: grantData.purchase?.amount,
+        notes: grantData.notes?.trim() || undefined
+      };
+
+      // Serializable so concurrent grants can't all pass the fraud rules' daily caps
+      const result = await prisma.$transaction(async tx => {
+        const fraudCheck = await FraudService.check(tx, attempt);
+
+        if (!fraudCheck.allowed) {
+          return { blocked: fraudCheck };
+        }
+
+        const customer = existingCustomer || await tx.customer.create({
+          data: { phone }
+        });
+
+        if (!existingMembership) {
+          await MembershipService.join(tx, customer.id, businessId);
+        }
+
+        const transaction = await tx.stampTransaction.create({
+          data: {
+            stampsAwarded: stamps,
+            source: 'manual',
+            notes: grantData.notes?.trim() || null,
+            purchaseAmount: grantData.purchase?.amount ?? null,
+            customerId: customer.id,
+            businessId,
+            programId: program.id,
+            staffId: audit.actor?.staffId ?? null
+          }
+        });
+
+        const counters = await LedgerService.post(tx, {
+          type: 'earn',
+          stamps,
+          customerId: customer.id,
+          businessId,
+          programId: program.id,
+          stampTransactionId: transaction.id,
+          visits: 1
+        });
+
+        return {
+          customer: { id: customer.id, phone: customer.phone, firstName: customer.firstName, lastName: customer.lastName },
+          programStamps: await LedgerService.getProgramBalance(tx, customer.id, program),
+          totalStamps: counters.totalStamps
+        };
+      }, { isolationLevel: 'Serializable' });
+
+      if (result.blocked) {
+        return FraudService.flag(attempt, result.blocked, audit);
+      }
+
+      const { programStamps, totalStamps, customer } = result;
+      const stampsBefore = programStamps - stamps;
+      const rewardUnlocked = Math.floor(programStamps / stampsForReward) > Math.floor(stampsBefore / stampsForReward);
+
+      console.log(`⭐ Manual grant: ${stamps} stamps for ${phone}${existingMembership ? '' : ' (new customer)'}`);
+      await AuditLogService.record({
+        businessId,
+        action: 'stamps.granted_manual',
+        audit,
+        targetType: 'customer',
+        targetId: customer.id,
+        metadata: {
+          programId: program.id,
+          stamps,
+          purchaseAmount: grantData.purchase?.amount,
+          appliedRules: calculation?.appliedRules,
+          notes: grantData.notes?.trim() || undefined,
+          customerCreated: !existingMembership
+        }
+      });
+      await EventService.publish(businessId, 'stamps.granted', {
+        customer,
+        programId: program.id,
+        stampsAwarded: stamps,
+        programStamps,
+        totalStamps,
+        rewardUnlocked,
+        staffId: audit.actor?.staffId ?? null
+      });
+
+      return {
+        success: true,
+        data: {
+          customer,
+          customerCreated: !existingMembership,
+          programId: program.id,
+          stampsAwarded: stamps,
+          programStamps,
+          totalStamps,
+          rewardUnlocked,
+          stampsUntilNextReward: stampsForReward - (programStamps % stampsForReward),
+          calculation
+        }
+      };
+    } catch (error) {
+      // Two cashiers creating the same new customer at once
+      if (isPrismaUniqueConstraintError(error)) {
+        return { success: false, error: 'Customer was just created elsewhere. Please try again.', code: 'CUSTOMER_CONFLICT' };
+      }
+
+      // Serialization failure - other stamps for the customer or staff member were issued at the same moment
+      if (isPrismaError(error) && error.code === 'P2034') {
+        return { success: false, error: 'Stamps were just issued elsewhere. Please try again.', code: 'STAMPS_CONFLICT' };
+      }
+
+      console.error('❌ Manual stamp grant error:', error);
+      return { success: false, error: 'Failed to grant stamps' };
+    }
+  }
+
+  /**
+   * Void a transaction (or part of it) by writing a compensating negative transaction
+   * The customer's balance on the program may not drop below zero - stamps already spent on rewards
+   * can't be taken back
+   */
+  static async voidTransaction(
+    businessId: string,
+    transactionId: string,
+    voidData: StampVoidData,
+    audit: AuditContext
+  ): Promise<ServiceResult<StampVoidResult>> {
+    try {
+      const original = await prisma.stampTransaction.findFirst({
+        where: { id: transactionId, businessId },
+        select: {
+          id: true,
+          source: true,
+          stampsAwarded: true,
+          reversedStamps: true,
+          reversalOfId: true,
+          customerId: true,
+          programId: true
+        }
+      });
+
+      if (!original) {
+        return { success: false, error: 'Transaction not found', code: 'TRANSACTION_NOT_FOUND' };
+      }
+
+      if (original.reversalOfId || original.stampsAwarded <= 0) {
+        return { success: false, error: 'Adjustments cannot be voided', code: 'CANNOT_VOID_ADJUSTMENT' };
+      }
+
+      const remaining = original.stampsAwarded - original.reversedStamps;
+      if (remaining <= 0) {
+        return { success: false, error: 'This transaction has already been voided', code: 'TRANSACTION_ALREADY_VOIDED' };
+      }
+
+      const stamps = voidData.stamps ?? remaining;
+      if (stamps > remaining) {
+        return {
+          success: false,
+          error: `Only ${remaining} stamp(s) of this transaction can still be reversed`,
+          code: 'STAMPS_EXCEED_REMAINING'
+        };
+      }
+
+      const fullyVoided = stamps === remaining;
+      const reason = voidData.reason.trim();
+
+      const program = await ProgramService.getProgramOf(prisma, businessId, original.programId);
+
+      if (!program) {
+        return { success: false, error: 'Transaction not found', code: 'TRANSACTION_NOT_FOUND' };
+      }
+
+      // Serializable so a reward redeemed at the same moment can't spend the stamps being taken back
+      const result = await prisma.$transaction(async tx => {
+        const balance = await LedgerService.getProgramBalance(tx, original.customerId, program);
+        if (balance - stamps < 0) {
+          return { balance };
+        }
+
+        // Guards against two voids of the same transaction racing each other
+        const claimed = await tx.stampTransaction.updateMany({
+          where: { id: original.id, reversedStamps: original.reversedStamps },
+          data: {
+            reversedStamps: { increment: stamps },
+            ...(fullyVoided ? { voidedAt: new Date() } : {})
+          }
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        const reversal = await tx.stampTransaction.create({
+          data: {
+            stampsAwarded: -stamps,
+            source: 'adjustment',
+            reason,
+            reversalOfId: original.id,
+            customerId: original.customerId,
+            businessId,
+            programId: program.id,
+            staffId: audit.actor?.staffId ?? null
+          }
+        });
+
+        // A visit that was voided in full no longer counts as one
+        const counters = await LedgerService.post(tx, {
+          type: 'adjust',
+          stamps: -stamps,
+          customerId: original.customerId,
+          businessId,
+          programId: program.id,
+          stampTransactionId: reversal.id,
+          visits: fullyVoided && VISIT_SOURCES.includes(original.source) ? -1 : 0
+        });
+
+        return { reversal, totalStamps: counters.totalStamps };
+      }, { isolationLevel: 'Serializable' });
+
+      if (!result) {
+        return { success: false, error: 'This transaction was just changed. Please try again.', code: 'TRANSACTION_CONFLICT' };
+      }
+
+      if (!result.reversal) {
+        return {
+          success: false,
+          error: `The customer only has ${Math.max(result.balance, 0)} stamp(s) left - the rest were already spent on rewards`,
+          code: 'STAMPS_ALREADY_SPENT'
+        };
+      }
+
+      console.log(`↩️ Stamp transaction voided: ${stamps} stamps from ${original.id}`);
+      await AuditLogService.record({
+        businessId,
+        action: 'stamps.voided',
+        audit,
+        targetType: 'stamp_transaction',
+        targetId: original.id,
+        metadata: { stamps, reason, reversalId: result.reversal.id, customerId: original.customerId }
+      });
+      await EventService.publish(businessId, 'stamps.voided', {
+        transactionId: original.id,
+        customerId: original.customerId,
+        stampsReversed: stamps,
+        totalStamps: result.totalStamps
+      });
+
+      return {
+        success: true,
+        data: {
+          transactionId: original.id,
+          reversalId: result.reversal.id,
+          stampsReversed: stamps,
+          status: fullyVoided ? 'voided' : 'partially_voided',
+          totalStamps: result.totalStamps
+        }
+      };
+    } catch (error) {
+      // Serialization failure - another write touched the same customer
+      if (isPrismaError(error) && error.code === 'P2034') {
+        return { success: false, error: 'This transaction was just changed. Please try again.', code: 'TRANSACTION_CONFLICT' };
+      }
+
+      console.error('❌ Void stamp transaction error:', error);
+      return { success: false, error: 'Failed to void transaction' };
+    }
+  }
+
+  /**
+   * List stamp transactions newest first, one cursor page at a time, with totals for the filter
+   */
+  static async listTransactions(businessId: string, filters: StampTransactionFilters): Promise<ServiceResult> {
+    try {
+      const where: Prisma.StampTransactionWhereInput = { businessId };
+
+      if (filters.customerId) where.customerId = filters.customerId;
+      if (filters.source) where.source = filters.source;
+      if (filters.programId) {
+        const program = await ProgramService.getProgramOf(prisma, businessId, filters.programId);
+
+        if (!program) {
+          return { success: false, error: 'Loyalty program not found', code: 'PROGRAM_NOT_FOUND' };
+        }
+
+        // AND so the cursor's OR below doesn't replace it
+        where.AND = [programScope(program)];
+      }
+      if (filters.staffId) where.staffId = filters.staffId === 'owner' ? null : filters.staffId;
+      if (filters.from || filters.to) {
+        where.createdAt = {
+          ...(filters.from ? { gte: filters.from } : {}),
+          ...(filters.to ? { lte: filters.to } : {})
+        };
+      }
+
+      // Position of the cursor within the filtered list, so the page number can be reported
+      let position = 0;
+      if (filters.cursor) {
+        const cursor = await prisma.stampTransaction.findFirst({
+          where: { ...where, id: filters.cursor },
+          select: { id: true, createdAt: true }
+        });
+
+        if (!cursor) {
+          return { success: false, error: 'Invalid cursor', code: 'INVALID_CURSOR' };
+        }
+
+        position = await prisma.stampTransaction.count({
+          where: {
+            ...where,
+            OR: [
+              { createdAt: { gt: cursor.createdAt } },
+              { createdAt: cursor.createdAt, id: { gte: cursor.id } }
+            ]
+          }
+        });
+      }
+
+      const [rows, total, stampSum, bySource] = await Promise.all([
+        prisma.stampTransaction.findMany({
+          where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: filters.limit + 1, // One extra to know whether there's another page
+          ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+          include: {
+            staff: { select: { id: true, name: true } },
+            program: { select: { id: true, name: true } },
+            reversalOf: { select: { id: true, source: true, stampsAwarded: true, createdAt: true } },
+            reversals: {
+              select: { id: true, stampsAwarded: true, reason: true, createdAt: true },
+              orderBy: { createdAt: 'asc' }
+            },
+            ...(filters.includeCustomer
+              ? { customer: { select: { id: true, firstName: true, lastName: true, phone: true } } }
+              : {})
+          }
+        }),
+        prisma.stampTransaction.count({ where }),
+        prisma.stampTransaction.aggregate({ where, _sum: { stampsAwarded: true } }),
+        prisma.stampTransaction.groupBy({
+          by: ['source'],
+          where,
+          _count: { _all: true },
+          _sum: { stampsAwarded: true }
+        })
+      ]);
+
+      const hasMore = rows.length > filters.limit;
+      const transactions = (hasMore ? rows.slice(0, filters.limit) : rows).map(transaction => ({
+        ...transaction,
+        status: getTransactionStatus(transaction)
+      }));
+
+      const totals: StampTransactionTotals = {
+        transactions: total,
+        stamps: stampSum._sum.stampsAwarded || 0,
+        bySource: bySource.reduce((acc: StampTransactionTotals['bySource'], group) => ({
+          ...acc,
+          [group.source]: { transactions: group._count._all, stamps: group._sum.stampsAwarded || 0 }
+        }), {})
+      };
+
+      return {
+        success: true,
+        data: {
+          transactions,
+          totals,
+          pagination: {
+            page: Math.floor(position / filters.limit) + 1,
+            limit: filters.limit,
+            total,
+            pages: Math.ceil(total / filters.limit),
+            nextCursor: hasMore ? transactions[transactions.length - 1].id : null
+          }
+        }
+      };
+    } catch (error) {
+      console.error('❌ List stamp transactions error:', error);
+      return { success: false, error: 'Failed to list stamp transactions' };
+    }
+  }
+}
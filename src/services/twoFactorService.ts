@@ -0,0 +1,383 @@
+import crypto from 'crypto';
+import { prisma } from '../app';
+import { SessionService } from './sessionService';
+import { LoginThrottleService } from './loginThrottleService';
+import { AuditLogService } from './auditLogService';
+import { comparePassword, hashToken, verifyToken } from '../utils/auth';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { ownerActor } from '../utils/requestContext';
+import { AuthResult, ClientContext } from '../types/auth';
+import { ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Recovery codes look like "3f9a1-c07be"; compare them without dashes or case
+ */
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+  });
+};
+
+export class TwoFactorService {
+  /**
+   * Check a TOTP code or a recovery code for a business, consuming it on success
+   * @returns boolean - True if the second factor is valid
+   */
+  private static async checkSecondFactor(businessId: string, code?: string, recoveryCode?: string): Promise<boolean> {
+    const business = await prisma.business.findUnique({
+      where: { id: businessId },
+      select: { id: true, twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastStep: true, twoFactorRecoveryCodes: true }
+    });
+
+    if (!business || !business.twoFactorEnabled || !business.twoFactorSecret) {
+      return false;
+    }
+
+    if (code) {
+      const step = verifyTotp(business.twoFactorSecret, code);
+      if (step === null || (business.twoFactorLastStep !== null && step <= business.twoFactorLastStep)) {
+        return false;
+      }
+
+      // Conditional update so two requests can't both use the same code
+      const accepted = await prisma.business.updateMany({
+        where: {
+          id: business.id,
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }]
+        },
+        data: { twoFactorLastStep: step }
+      });
+
+      return accepted.count > 0;
+    }
+
+    if (recoveryCode) {
+      const codeHash = hashToken(normalizeRecoveryCode(recoveryCode));
+      if (!business.twoFactorRecoveryCodes.includes(codeHash)) {
+        return false;
+      }
+
+      const consumed = await prisma.business.updateMany({
+        where: { id: business.id, twoFactorRecoveryCodes: { has: codeHash } },
+        data: {
+          twoFactorRecoveryCodes: business.twoFactorRecoveryCodes.filter((hash: string) => hash !== codeHash)
+        }
+      });
+
+      if (consumed.count > 0) {
+        console.log(`🔐 Recovery code used for business: ${business.id}`);
+      }
+
+      return consumed.count > 0;
+    }
+
+    return false;
+  }
+
+  /**
+   * Whether 2FA is on and how many recovery codes are left
+   */
+  static async getStatus(businessId: string) {
+    try {
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { twoFactorEnabled: true, twoFactorRecoveryCodes: true }
+      });
+
+      if (!business) return null;
+
+      return {
+        enabled: business.twoFactorEnabled,
+        recoveryCodesRemaining: business.twoFactorRecoveryCodes.length
+      };
+    } catch (error) {
+      console.error('❌ Get 2FA status error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Start enrollment: create a secret the owner adds to their authenticator app
+   */
+  static async beginEnrollment(businessId: string): Promise<ServiceResult<{ secret: string; otpauthUri: string }>> {
+    try {
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { id: true, email: true, twoFactorEnabled: true }
+      });
+
+      if (!business) {
+        return { success: false, error: 'Business account not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      if (business.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' };
+      }
+
+      const secret = generateTotpSecret();
+
+      await prisma.business.update({
+        where: { id: business.id },
+        data: { twoFactorPendingSecret: secret }
+      });
+
+      return {
+        success: true,
+        data: {
+          secret,
+          otpauthUri: buildOtpauthUri(secret, business.email)
+        }
+      };
+    } catch (error) {
+      console.error('❌ Begin 2FA enrollment error:', error);
+      return { success: false, error: 'Failed to start two-factor setup' };
+    }
+  }
+
+  /**
+   * Finish enrollment with a code from the app and hand out recovery codes (shown once)
+   */
+  static async confirmEnrollment(
+    businessId: string,
+    code: string,
+    audit: AuditContext
+  ): Promise<ServiceResult<{ recoveryCodes: string[] }>> {
+    try {
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { id: true, email: true, twoFactorEnabled: true, twoFactorPendingSecret: true }
+      });
+
+      if (!business) {
+        return { success: false, error: 'Business account not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      if (business.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' };
+      }
+
+      if (!business.twoFactorPendingSecret) {
+        return { success: false, error: 'Start two-factor setup first', code: 'TWO_FACTOR_NOT_STARTED' };
+      }
+
+      const step = verifyTotp(business.twoFactorPendingSecret, code);
+      if (step === null) {
+        return { success: false, error: 'Invalid authentication code', code: 'INVALID_2FA_CODE' };
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+
+      await prisma.business.update({
+        where: { id: business.id },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorSecret: business.twoFactorPendingSecret,
+          twoFactorPendingSecret: null,
+          twoFactorLastStep: step,
+          twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode => hashToken(normalizeRecoveryCode(recoveryCode)))
+        }
+      });
+
+      console.log(`🔐 2FA enabled: ${business.email}`);
+      await AuditLogService.record({ businessId: business.id, action: 'auth.2fa_enabled', audit });
+
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      console.error('❌ Confirm 2FA enrollment error:', error);
+      return { success: false, error: 'Failed to enable two-factor authentication' };
+    }
+  }
+
+  /**
+   * Second sign-in step: exchange the pending token plus a code for a session
+   */
+  static async completeSignIn(
+    twoFactorToken: string,
+    code: string | undefined,
+    recoveryCode: string | undefined,
+    context: ClientContext = {}
+  ): Promise<AuthResult> {
+    try {
+      let decoded: any;
+      try {
+        decoded = verifyToken(twoFactorToken, '2fa_pending');
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Sign-in attempt has expired. Please sign in again.',
+          code: 'TWO_FACTOR_TOKEN_INVALID'
+        };
+      }
+
+      if (decoded.type !== '2fa_pending') {
+        return {
+          success: false,
+          error: 'Sign-in attempt has expired. Please sign in again.',
+          code: 'TWO_FACTOR_TOKEN_INVALID'
+        };
+      }
+
+      const business = await prisma.business.findUnique({
+        where: { id: decoded.businessId },
+        select: { id: true, name: true, email: true, phone: true, isVerified: true }
+      });
+
+      if (!business) {
+        return {
+          success: false,
+          error: 'Business account no longer exists'
+        };
+      }
+
+      // Code guesses share the same lockout as password guesses
+      const throttle = await LoginThrottleService.checkAllowed(business.email, context);
+      if (!throttle.allowed) {
+        return {
+          success: false,
+          error: throttle.error,
+          code: throttle.code,
+          retryAfter: throttle.retryAfter
+        };
+      }
+
+      const isValid = await this.checkSecondFactor(business.id, code, recoveryCode);
+      if (!isValid) {
+        await LoginThrottleService.recordFailure(business.email, context);
+        await AuditLogService.record({
+          businessId: business.id,
+          action: 'auth.signin_failed',
+          audit: { actor: null, ...context },
+          metadata: { reason: 'invalid_2fa_code' }
+        });
+        return {
+          success: false,
+          error: 'Invalid authentication code',
+          code: 'INVALID_2FA_CODE'
+        };
+      }
+
+      await LoginThrottleService.recordSuccess(business.email);
+
+      const session = await SessionService.createBusinessSession(business.id, context, !!decoded.rememberMe);
+
+      console.log(`🔐 Business signin (2FA): ${business.name} (${business.email})`);
+      await AuditLogService.record({
+        businessId: business.id,
+        action: 'auth.signin',
+        audit: { actor: ownerActor(business.name), ...context },
+        targetType: 'session',
+        targetId: session.sessionId,
+        metadata: { rememberMe: !!decoded.rememberMe, twoFactor: recoveryCode ? 'recovery_code' : 'totp' }
+      });
+
+      return {
+        success: true,
+        data: {
+          business,
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresAt: session.expiresAt
+        }
+      };
+    } catch (error) {
+      console.error('❌ Complete 2FA signin error:', error);
+      return {
+        success: false,
+        error: 'Authentication failed'
+      };
+    }
+  }
+
+  /**
+   * Replace all recovery codes (requires a current code)
+   */
+  static async regenerateRecoveryCodes(
+    businessId: string,
+    code: string,
+    audit: AuditContext
+  ): Promise<ServiceResult<{ recoveryCodes: string[] }>> {
+    try {
+      const isValid = await this.checkSecondFactor(businessId, code);
+      if (!isValid) {
+        return { success: false, error: 'Invalid authentication code', code: 'INVALID_2FA_CODE' };
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+
+      await prisma.business.update({
+        where: { id: businessId },
+        data: {
+          twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode => hashToken(normalizeRecoveryCode(recoveryCode)))
+        }
+      });
+
+      await AuditLogService.record({ businessId, action: 'auth.2fa_recovery_codes_regenerated', audit });
+
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      console.error('❌ Regenerate recovery codes error:', error);
+      return { success: false, error: 'Failed to regenerate recovery codes' };
+    }
+  }
+
+  /**
+   * Turn 2FA off - requires the account password and a current code or recovery code
+   */
+  static async disable(
+    businessId: string,
+    password: string,
+    code: string | undefined,
+    recoveryCode: string | undefined,
+    audit: AuditContext
+  ): Promise<ServiceResult> {
+    try {
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { id: true, email: true, password: true, twoFactorEnabled: true }
+      });
+
+      if (!business) {
+        return { success: false, error: 'Business account not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      if (!business.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is not enabled', code: 'TWO_FACTOR_NOT_ENABLED' };
+      }
+
+      const isPasswordValid = await comparePassword(password, business.password);
+      if (!isPasswordValid) {
+        return { success: false, error: 'Password is incorrect', code: 'INVALID_PASSWORD' };
+      }
+
+      const isValid = await this.checkSecondFactor(business.id, code, recoveryCode);
+      if (!isValid) {
+        return { success: false, error: 'Invalid authentication code', code: 'INVALID_2FA_CODE' };
+      }
+
+      await prisma.business.update({
+        where: { id: business.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorPendingSecret: null,
+          twoFactorLastStep: null,
+          twoFactorRecoveryCodes: []
+        }
+      });
+
+      console.log(`🔓 2FA disabled: ${business.email}`);
+      await AuditLogService.record({ businessId: business.id, action: 'auth.2fa_disabled', audit });
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Disable 2FA error:', error);
+      return { success: false, error: 'Failed to disable two-factor authentication' };
+    }
+  }
+}
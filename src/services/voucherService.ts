@@ -0,0 +1,344 @@
+import { Reward } from '@prisma/client';
+import { prisma } from '../app';
+import { AuditLogService } from './auditLogService';
+import { EventService } from './eventService';
+import { LedgerService } from './ledgerService';
+import { MailService } from './mailService';
+import { ProgramService } from './programService';
+import { RewardService } from './rewardService';
+import { generateVoucherCode, normalizeVoucherCode } from '../utils/auth';
+import { isPrismaError, isPrismaUniqueConstraintError, logError } from '../utils/errorHandler';
+import { ServiceResult } from '../types/api';
+import { AuditContext } from '../types/audit';
+import { VoucherDetails, VoucherStatus } from '../types/rewards';
+
+// A new code is drawn if the first one is already taken at the business
+const CODE_ATTEMPTS = 3;
+
+const toVoucherDetails = (reward: Reward & { customer?: VoucherDetails['customer'] }): VoucherDetails => ({
+  id: reward.id,
+  programId: reward.programId,
+  code: reward.code as string, // Vouchers are always issued with a code
+  status: reward.status as VoucherStatus,
+  type: reward.type,
+  value: reward.value,
+  description: reward.description,
+  stampsUsed: reward.stampsUsed,
+  createdAt: reward.createdAt,
+  expiresAt: reward.expiresAt,
+  redeemedAt: reward.redeemedAt,
+  redeemUrl: MailService.frontendLink('/vouchers/redeem', { code: reward.code as string }),
+  customer: reward.customer
+});
+
+/**
+ * Why a voucher can't be redeemed, or null if it can
+ */
+const getVoucherError = (voucher: Reward): { error: string; code: string } | null => {
+  if (voucher.status === 'redeemed') {
+    return { error: 'This voucher has already been used', code: 'VOUCHER_ALREADY_REDEEMED' };
+  }
+
+  if (voucher.status === 'cancelled') {
+    return { error: 'This voucher was cancelled', code: 'VOUCHER_CANCELLED' };
+  }
+
+  if (voucher.status === 'expired' || (voucher.expiresAt && voucher.expiresAt.getTime() <= Date.now())) {
+    return { error: 'This voucher has expired', code: 'VOUCHER_EXPIRED' };
+  }
+
+  return null;
+};
+
+export class VoucherService {
+  /**
+   * Customer unlocks a reward of the catalog; the stamps are spent now and the voucher used on a later visit
+   */
+  static async issue(
+    customerId: string,
+    businessId: string,
+    tierId: string | undefined,
+    audit: AuditContext
+  ): Promise<ServiceResult<VoucherDetails>> {
+    try {
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { voucherExpiryDays: true }
+      });
+
+      if (!business) {
+        return { success: false, error: 'Business not found', code: 'BUSINESS_NOT_FOUND' };
+      }
+
+      const expiresAt = business.voucherExpiryDays
+        ? new Date(Date.now() + business.voucherExpiryDays * 24 * 60 * 60 * 1000)
+        : null;
+
+      for (let attempt = 1; attempt <= CODE_ATTEMPTS; attempt++) {
+        try {
+          const issued = await prisma.$transaction(async tx => {
+            return RewardService.spendOnTier(tx, businessId, customerId, tierId, {
+              status: 'issued',
+              code: generateVoucherCode(),
+              expiresAt
+            });
+          }, { isolationLevel: 'Serializable' });
+
+          if ('failure' in issued) {
+            return { success: false, ...issued.failure };
+          }
+
+          const { reward, counters } = issued;
+
+          console.log(`🎟️ Voucher issued: ${reward.type} (${reward.code}) for customer ${customerId}`);
+          await AuditLogService.record({
+            businessId,
+            action: 'reward.voucher_issued',
+            audit,
+            targetType: 'reward',
+            targetId: reward.id,
+            metadata: {
+              customerId,
+              programId: reward.programId,
+              tierId: reward.rewardTierId,
+              type: reward.type,
+              stampsUsed: reward.stampsUsed
+            }
+          });
+          await EventService.publish(businessId, 'voucher.issued', {
+            rewardId: reward.id,
+            type: reward.type,
+            customerId,
+            programId: reward.programId,
+            expiresAt,
+            totalStamps: counters.totalStamps
+          });
+
+          return { success: true, data: toVoucherDetails(reward) };
+        } catch (error) {
+          if (!isPrismaUniqueConstraintError(error) || attempt === CODE_ATTEMPTS) throw error;
+        }
+      }
+
+      return { success: false, error: 'Failed to issue voucher' };
+    } catch (error) {
+      // Serialization failure - the customer's card changed while unlocking
+      if (isPrismaError(error) && error.code === 'P2034') {
+        return { success: false, error: 'Your card was just changed. Please try again.', code: 'REDEMPTION_CONFLICT' };
+      }
+
+      console.error('❌ Issue voucher error:', error);
+      return { success: false, error: 'Failed to issue voucher' };
+    }
+  }
+
+  /**
+   * Look up a voucher by its code, for staff to check it before redeeming
+   */
+  static async getByCode(businessId: string, code: string): Promise<ServiceResult<VoucherDetails>> {
+    try {
+      const voucher = await prisma.reward.findUnique({
+        where: { businessId_code: { businessId, code: normalizeVoucherCode(code) } },
+        include: { customer: { select: { id: true, phone: true, firstName: true, lastName: true } } }
+      });
+
+      if (!voucher) {
+        return { success: false, error: 'Voucher not found', code: 'VOUCHER_NOT_FOUND' };
+      }
+
+      return { success: true, data: toVoucherDetails(voucher) };
+    } catch (error) {
+      console.error('❌ Get voucher error:', error);
+      return { success: false, error: 'Failed to get voucher' };
+    }
+  }
+
+  /**
+   * Staff scan or type a voucher code to hand over the reward
+   */
+  static async redeem(businessId: string, code: string, audit: AuditContext): Promise<ServiceResult<VoucherDetails>> {
+    try {
+      const voucher = await prisma.reward.findUnique({
+        where: { businessId_code: { businessId, code: normalizeVoucherCode(code) } },
+        include: { customer: { select: { id: true, phone: true, firstName: true, lastName: true } } }
+      });
+
+      if (!voucher) {
+        return { success: false, error: 'Voucher not found', code: 'VOUCHER_NOT_FOUND' };
+      }
+
+      const unusable = getVoucherError(voucher);
+      if (unusable) {
+        return { success: false, ...unusable };
+      }
+
+      const redeemedAt = new Date();
+
+      // Only one scan can win an issued voucher
+      const redeemed = await prisma.reward.updateMany({
+        where: { id: voucher.id, status: 'issued' },
+        data: {
+          status: 'redeemed',
+          isRedeemed: true,
+          redeemedAt,
+          redeemedBy: audit.actor?.name ?? null,
+          redeemedByStaffId: audit.actor?.staffId ?? null
+        }
+      });
+
+      if (redeemed.count === 0) {
+        return { success: false, error: 'This voucher has already been used', code: 'VOUCHER_ALREADY_REDEEMED' };
+      }
+
+      console.log(`🎁 Voucher redeemed: ${voucher.type} (${voucher.code}) for customer ${voucher.customerId}`);
+      await AuditLogService.record({
+        businessId,
+        action: 'reward.redeemed',
+        audit,
+        targetType: 'reward',
+        targetId: voucher.id,
+        metadata: {
+          customerId: voucher.customerId,
+          tierId: voucher.rewardTierId,
+          type: voucher.type,
+          value: voucher.value,
+          voucherCode: voucher.code
+        }
+      });
+      await EventService.publish(businessId, 'reward.redeemed', {
+        rewardId: voucher.id,
+        tierId: voucher.rewardTierId,
+        type: voucher.type,
+        value: voucher.value,
+        stampsUsed: voucher.stampsUsed,
+        customer: { id: voucher.customer.id, firstName: voucher.customer.firstName, lastName: voucher.customer.lastName },
+        voucherCode: voucher.code,
+        staffId: audit.actor?.staffId ?? null
+      });
+
+      return { success: true, data: toVoucherDetails({ ...voucher, status: 'redeemed', redeemedAt }) };
+    } catch (error) {
+      console.error('❌ Redeem voucher error:', error);
+      return { success: false, error: 'Failed to redeem voucher' };
+    }
+  }
+
+  /**
+   * Cancel an unused voucher and give the customer their stamps back
+   */
+  static async cancel(businessId: string, voucherId: string, audit: AuditContext): Promise<ServiceResult> {
+    try {
+      const voucher = await prisma.reward.findFirst({ where: { id: voucherId, businessId, code: { not: null } } });
+
+      if (!voucher) {
+        return { success: false, error: 'Voucher not found', code: 'VOUCHER_NOT_FOUND' };
+      }
+
+      if (voucher.status !== 'issued') {
+        return { success: false, error: `This voucher is already ${voucher.status}`, code: 'VOUCHER_NOT_OPEN' };
+      }
+
+      // The stamps go back on the card they were spent from
+      const program = await ProgramService.getProgramOf(prisma, businessId, voucher.programId);
+
+      if (!program) {
+        return { success: false, error: 'Voucher not found', code: 'VOUCHER_NOT_FOUND' };
+      }
+
+      const counters = await prisma.$transaction(async tx => {
+        const cancelled = await tx.reward.updateMany({
+          where: { id: voucher.id, status: 'issued' },
+          data: { status: 'cancelled', cancelledAt: new Date() }
+        });
+
+        if (cancelled.count === 0) {
+          return null;
+        }
+
+        if (voucher.rewardTierId) {
+          await tx.rewardTier.update({
+            where: { id: voucher.rewardTierId },
+            data: { redeemedCount: { decrement: 1 } }
+          });
+        }
+
+        return LedgerService.post(tx, {
+          type: 'adjust',
+          stamps: voucher.stampsUsed,
+          customerId: voucher.customerId,
+          businessId,
+          programId: program.id,
+          refundedRewardId: voucher.id,
+          rewards: -1
+        });
+      });
+
+      if (!counters) {
+        return { success: false, error: 'This voucher was just used or cancelled', code: 'VOUCHER_NOT_OPEN' };
+      }
+
+      console.log(`🎟️ Voucher cancelled: ${voucher.code}, ${voucher.stampsUsed} stamps returned to customer ${voucher.customerId}`);
+      await AuditLogService.record({
+        businessId,
+        action: 'reward.voucher_cancelled',
+        audit,
+        targetType: 'reward',
+        targetId: voucher.id,
+        metadata: { customerId: voucher.customerId, voucherCode: voucher.code, stampsReturned: voucher.stampsUsed }
+      });
+      await EventService.publish(businessId, 'voucher.cancelled', {
+        rewardId: voucher.id,
+        customerId: voucher.customerId,
+        stampsReturned: voucher.stampsUsed,
+        totalStamps: counters.totalStamps
+      });
+
+      return { success: true, data: { id: voucher.id, status: 'cancelled', totalStamps: counters.totalStamps } };
+    } catch (error) {
+      console.error('❌ Cancel voucher error:', error);
+      return { success: false, error: 'Failed to cancel voucher' };
+    }
+  }
+
+  /**
+   * Mark vouchers past their expiry as expired; their stamps are not returned but the tier gets its stock back
+   * Runs from the cron job, so no event is published - the job's process has no stream subscribers
+   * @returns number - Vouchers expired
+   */
+  static async expireVouchers(): Promise<number> {
+    const due = await prisma.reward.findMany({
+      where: { status: 'issued', expiresAt: { lte: new Date() } },
+      select: { id: true, rewardTierId: true }
+    });
+
+    let expired = 0;
+
+    for (const voucher of due) {
+      try {
+        const changed = await prisma.$transaction(async tx => {
+          const updated = await tx.reward.updateMany({
+            where: { id: voucher.id, status: 'issued' },
+            data: { status: 'expired' }
+          });
+
+          if (updated.count > 0 && voucher.rewardTierId) {
+            await tx.rewardTier.update({
+              where: { id: voucher.rewardTierId },
+              data: { redeemedCount: { decrement: 1 } }
+            });
+          }
+
+          return updated.count > 0;
+        });
+
+        if (changed) {
+          expired++;
+        }
+      } catch (error) {
+        logError(`Expire voucher ${voucher.id}`, error);
+      }
+    }
+
+    return expired;
+  }
+}
@@ -12,5 +12,14 @@ export interface ApiResponse<T = any> {
       limit: number;
       total: number;
       pages: number;
+      nextCursor?: string | null; // Cursor-paginated endpoints: pass back as ?cursor= for the next page
     };
+  }
+
+  export interface ServiceResult<T = any> {
+    success: boolean;
+    data?: T;
+    error?: string;
+    code?: string; // Machine-readable error code, passed through to the client
+    retryAfter?: number; // Seconds until the action may be retried
   }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { Actor, ClientContext } from './auth';
+
+export type AuditAction =
+  // Authentication
+  | 'auth.signup'
+  | 'auth.signin'
+  | 'auth.signin_failed'
+  | 'auth.signout'
+  | 'auth.token_refreshed'
+  | 'auth.refresh_token_reused'
+  | 'auth.account_locked'
+  | 'auth.password_reset_requested'
+  | 'auth.password_reset'
+  | 'auth.password_changed'
+  | 'auth.email_verified'
+  | 'auth.2fa_enabled'
+  | 'auth.2fa_disabled'
+  | 'auth.2fa_recovery_codes_regenerated'
+  | 'auth.session_revoked'
+  | 'auth.sessions_revoked_all'
+  // Account management
+  | 'business.profile_updated'
+  | 'staff.invited'
+  | 'staff.invite_accepted'
+  | 'staff.updated'
+  | 'api_key.created'
+  | 'api_key.revoked'
+  | 'display.created'
+  | 'display.revoked'
+  // Loyalty
+  | 'program.created'
+  | 'program.updated'
+  | 'program.deactivated'
+  | 'stamps.granted_manual'
+  | 'stamps.voided'
+  | 'stamps.blocked'
+  | 'stamps.flag_approved'
+  | 'stamps.flag_dismissed'
+  | 'reward.redeemed'
+  | 'reward.rules_updated'
+  | 'reward.tier_created'
+  | 'reward.tier_updated'
+  | 'reward.tier_deactivated'
+  | 'reward.voucher_issued'
+  | 'reward.voucher_cancelled';
+
+export type AuditActorType = 'owner' | 'staff' | 'api_key' | 'anonymous';
+
+  export interface AuditContext extends ClientContext {
+    actor: Actor | null; // Null when nobody is signed in (failed sign-in, password reset request)
+  }
+
+  export interface AuditEntry {
+    businessId: string;
+    action: AuditAction;
+    audit: AuditContext;
+    targetType?: string; // e.g. "staff", "session", "customer"
+    targetId?: string;
+    changes?: AuditChanges;
+    metadata?: Record<string, unknown>;
+  }
+
+  export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+  export interface AuditLogFilters {
+    page: number;
+    limit: number;
+    action?: string; // Exact action, or a prefix like "auth."
+    actorStaffId?: string;
+    targetId?: string;
+    from?: Date;
+    to?: Date;
+  }
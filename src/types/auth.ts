@@ -1,5 +1,26 @@
 import { Request } from 'express';
 
+export type StaffRole = 'owner' | 'manager' | 'cashier';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'manager', 'cashier'];
+
+export type ApiKeyScope =
+  | 'stamps:read'
+  | 'stamps:write'
+  | 'customers:read'
+  | 'customers:write'
+  | 'rewards:read'
+  | 'rewards:write';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  'stamps:read',
+  'stamps:write',
+  'customers:read',
+  'customers:write',
+  'rewards:read',
+  'rewards:write'
+];
+
 export interface AuthRequest extends Request {
     business?: {
       id: string;
@@ -10,12 +31,50 @@ export interface AuthRequest extends Request {
     customer?: {
       id: string;
       phone: string;
-      email?: string;
-      firstName?: string;
-      lastName?: string;
-      businessId: string;
+      email: string | null;
+      firstName: string | null;
+      lastName: string | null;
       isVerified: boolean;
+      businessId: string;   // Business the customer signed in to
+      membershipId: string; // Their card at that business
+    };
+    staff?: {
+      id: string;
+      name: string;
+      email: string;
+      role: StaffRole;
+    };
+    apiKey?: {
+      id: string;
+      name: string;
+      scopes: ApiKeyScope[];
     };
+    role?: StaffRole; // 'owner' for the business account itself, otherwise the staff member's role
+    sessionId?: string;
+  }
+
+  export interface Actor {
+    staffId: string | null; // Null when the business account owner (or an API key) is acting
+    apiKeyId?: string;
+    name: string;
+    role: StaffRole | 'api_key';
+  }
+
+  export interface ApiKeyCreateData {
+    name: string;
+    scopes: ApiKeyScope[];
+    expiresInDays?: number;
+  }
+
+  export interface StaffInviteData {
+    name: string;
+    email: string;
+    role: StaffRole;
+  }
+
+  export interface ClientContext {
+    ipAddress?: string;
+    userAgent?: string;
   }
   
   export interface BusinessSignupData {
@@ -34,8 +93,35 @@ export interface AuthRequest extends Request {
   export interface AuthResult {
     success: boolean;
     error?: string;
+    code?: string;
+    retryAfter?: number; // Seconds until another attempt is allowed
     data?: {
       business?: any;
       token?: string;
+      refreshToken?: string;
+      expiresAt?: Date; // When the session (and refresh token) ends
+      twoFactorRequired?: boolean;
+      twoFactorToken?: string; // Exchanged for a session at /api/auth/2fa/verify
+    };
+  }
+
+  export interface CustomerOtpRequestData {
+    phone: string;
+    businessId: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+  }
+
+  export interface CustomerAuthResult {
+    success: boolean;
+    error?: string;
+    code?: string;
+    retryAfter?: number; // Seconds until another code may be requested
+    data?: {
+      customer?: any;
+      token?: string;
+      phone?: string;
+      expiresAt?: Date;
     };
   }
\ No newline at end of file
@@ -1,24 +1,33 @@
+import { StampBonusRule } from './stamps';
+
 export interface BusinessProfile {
     id: string;
     name: string;
     email: string;
-    phone?: string;
-    website?: string;
-    description?: string;
-    logo?: string;
-    address?: string;
-    city?: string;
-    state?: string;
-    zipCode?: string;
-    country?: string;
-    timezone?: string;
+    phone: string | null;
+    website: string | null;
+    description: string | null;
+    logo: string | null;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    zipCode: string | null;
+    country: string | null;
+    timezone: string;
     isVerified: boolean;
     createdAt: Date;
     
     // Settings
     stampsPerVisit: number;
     minSpendForStamp: number;
+    spendPerStamp: number | null;
+    stampBonusRules: StampBonusRule[] | null;
     maxStampsPerVisit: number;
+    displayClaimCooldownMinutes: number;
+    minMinutesBetweenVisits: number;
+    maxDailyStampsPerCustomer: number | null;
+    maxDailyStampsPerStaff: number | null;
+    enforceBusinessHours: boolean;
     stampsForReward: number;
     rewardType: string;
     rewardValue: number;
@@ -0,0 +1,4 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// The shared Prisma client, or the client of an interactive transaction
+export type DbClient = PrismaClient | Prisma.TransactionClient;
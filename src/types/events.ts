@@ -0,0 +1,26 @@
+export type BusinessEventType =
+  | 'qr.claimed'
+  | 'qr.expired'
+  | 'display.claimed'
+  | 'stamps.granted'
+  | 'stamps.voided'
+  | 'activity.flagged'
+  | 'reward.redeemed'
+  | 'voucher.issued'
+  | 'voucher.cancelled';
+
+export interface BusinessEvent {
+    id: string;
+    type: BusinessEventType;
+    businessId: string;
+    occurredAt: string; // ISO 8601
+    data: Record<string, unknown>;
+  }
+
+  // Moves serialized events between publishers and subscribers. The in-process
+  // transport is enough for one instance; a Postgres LISTEN/NOTIFY transport
+  // can implement the same interface for several.
+  export interface EventTransport {
+    publish(channel: string, message: string): void | Promise<void>;
+    subscribe(channel: string, onMessage: (message: string) => void): () => void; // Returns unsubscribe
+  }
@@ -0,0 +1,11 @@
+export type IdempotencyBeginResult =
+  | { status: 'started'; id: string }                        // First time this key is seen - run the request
+  | { status: 'replay'; statusCode: number; response: unknown }
+  | { status: 'mismatch' }                                   // Same key, different request
+  | { status: 'in_progress' };                               // The first request hasn't finished yet
+
+export interface IdempotencyRequest {
+    businessId: string;
+    key: string;
+    requestHash: string;
+  }
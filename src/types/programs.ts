@@ -0,0 +1,31 @@
+import { StampBonusRule } from './stamps';
+
+export interface LoyaltyProgramData {
+  name: string;
+  description?: string | null;
+  isActive?: boolean;
+
+  // Stamp rules - null = the business's setting
+  stampsPerVisit?: number | null;
+  minSpendForStamp?: number | null;
+  spendPerStamp?: number | null;
+  stampBonusRules?: StampBonusRule[] | null;
+  maxStampsPerVisit?: number | null;
+}
+
+  // Enough of a program to scope balances and history to it
+  export interface ProgramRef {
+    id: string;
+    businessId: string;
+    isDefault: boolean;
+  }
+
+  export interface CustomerProgramBalance {
+    program: {
+      id: string;
+      name: string;
+      description: string | null;
+      isDefault: boolean;
+    };
+    totalStamps: number;
+  }
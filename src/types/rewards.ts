@@ -0,0 +1,104 @@
+import { CustomerProgramBalance } from './programs';
+
+export type VoucherStatus = 'issued' | 'redeemed' | 'expired' | 'cancelled';
+
+export const VOUCHER_STATUSES: VoucherStatus[] = ['issued', 'redeemed', 'expired', 'cancelled'];
+
+export interface RewardRules {
+  stampsForReward: number;
+  rewardType: string;  // "Free Coffee", "10% Discount", etc.
+  rewardValue: number; // Dollar value
+  voucherExpiryDays: number | null; // Null = vouchers never expire
+}
+
+  export interface RewardRedemptionData {
+    customerId?: string;
+    customerPhone?: string; // Either the customer ID or their phone number
+    tierId?: string;        // Tier the customer chose; the default tier if omitted
+    description?: string;
+  }
+
+  export interface RewardTierData {
+    programId?: string; // Set on creation only; the business's default program if omitted
+    name: string;
+    description?: string | null;
+    stampCost: number;
+    value: number;
+    isActive?: boolean;
+    startsAt?: Date | null;
+    endsAt?: Date | null;
+    stockLimit?: number | null; // Null = unlimited
+  }
+
+  export interface RewardCatalogEntry {
+    id: string;
+    programId: string;
+    name: string;
+    description: string | null;
+    stampCost: number;
+    value: number;
+    startsAt: Date | null;
+    endsAt: Date | null;
+    remainingStock: number | null; // Null = unlimited
+    isDefault: boolean;
+  }
+
+  export interface RewardRedemptionResult {
+    reward: {
+      id: string;
+      tierId: string | null;  // Always set on redemption; nullable like the reward row
+      type: string;
+      value: number;
+      stampsUsed: number;
+      redeemedAt: Date | null;
+      redeemedBy: string | null;
+    };
+    customer: {
+      id: string;
+      phone: string;
+      firstName: string | null;
+      lastName: string | null;
+    };
+    programStamps: number; // Left on the tier's program card
+    totalStamps: number;
+  }
+
+  export interface RewardFilters {
+    page: number;
+    limit: number;
+    customerId?: string;
+    programId?: string;
+    status?: VoucherStatus;
+  }
+
+  export interface VoucherDetails {
+    id: string;
+    programId: string | null; // Null = the business's default program
+    code: string;
+    status: VoucherStatus;
+    type: string;
+    value: number;
+    description: string | null;
+    stampsUsed: number;
+    createdAt: Date;
+    expiresAt: Date | null;
+    redeemedAt: Date | null;
+    redeemUrl: string; // What the voucher QR encodes; staff scan it to redeem
+    customer?: {
+      id: string;
+      phone: string;
+      firstName: string | null;
+      lastName: string | null;
+    };
+  }
+
+  export interface CustomerRewardSummary {
+    totalStamps: number; // On the default program card, which the reward rules are for
+    stampsForReward: number;
+    rewardsAvailable: number;
+    stampsUntilNextReward: number;
+    rewardType: string;
+    rewardValue: number;
+    catalog: (RewardCatalogEntry & { affordable: boolean })[]; // Tiers available right now, cheapest first
+    programs: CustomerProgramBalance[];
+  }
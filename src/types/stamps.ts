@@ -0,0 +1,219 @@
+export type QrCodeStatus = 'pending' | 'claimed' | 'expired';
+
+export type StampSource = 'qr_scan' | 'counter_display' | 'manual' | 'promotion' | 'adjustment';
+
+export const STAMP_SOURCES: StampSource[] = ['qr_scan', 'counter_display', 'manual', 'promotion', 'adjustment'];
+
+export type StampTransactionStatus = 'active' | 'partially_voided' | 'voided' | 'reversal';
+
+// No expire type: stamps don't lapse, and a voucher's stamps are spent when it's issued, so its expiry leaves the balance alone
+export type LedgerEntryType = 'earn' | 'spend' | 'adjust';
+
+export type FraudRule = 'min_visit_interval' | 'customer_daily_cap' | 'staff_daily_cap' | 'outside_business_hours';
+
+export type FlaggedActivityStatus = 'pending' | 'approved' | 'dismissed';
+
+export const FLAGGED_ACTIVITY_STATUSES: FlaggedActivityStatus[] = ['pending', 'approved', 'dismissed'];
+
+export interface QrStatus {
+    qrId: string;
+    status: QrCodeStatus;
+    stampsValue: number;
+    expiresAt: Date;
+    claimedAt: Date | null;
+    customer: {
+      id: string;
+      firstName?: string | null;
+      lastName?: string | null;
+      phone: string;
+    } | null;
+  }
+
+  export interface ManualGrantData {
+    customerPhone: string;
+    programId?: string;   // The business's default program if omitted
+    stampsValue?: number; // Overrides the stamp rules
+    purchase?: PurchaseDetails;
+    notes?: string;
+  }
+
+  export interface QrGenerationData {
+    programId?: string;   // The business's default program if omitted
+    stampsValue?: number; // Overrides the stamp rules
+    purchase?: PurchaseDetails;
+  }
+
+  export interface ManualGrantResult {
+    customer: {
+      id: string;
+      phone: string;
+      firstName?: string | null;
+      lastName?: string | null;
+    };
+    customerCreated: boolean; // New to the business; the person may already have a card elsewhere
+    programId: string;
+    stampsAwarded: number;
+    programStamps: number; // Balance on the program's card
+    totalStamps: number;   // Across all of the business's programs
+    rewardUnlocked: boolean;
+    stampsUntilNextReward: number;
+    calculation: StampCalculation | null; // Null when stampsValue overrode the rules
+  }
+
+  export interface CounterDisplayCreateData {
+    name: string;
+    rotationSeconds?: number;
+    programId?: string;   // The business's default program if omitted
+    stampsValue?: number; // Overrides the stamp rules
+  }
+
+  export interface QrClaimResult {
+    programId: string;
+    stampsAwarded: number;
+    programStamps: number; // Balance on the program's card
+    totalStamps: number;   // Across all of the business's programs
+    totalVisits: number;
+  }
+
+  export interface StampTransactionFilters {
+    limit: number;
+    cursor?: string;       // ID of the last transaction on the previous page
+    customerId?: string;
+    programId?: string;
+    source?: StampSource;
+    staffId?: string;      // "owner" for stamps issued by the account holder
+    from?: Date;
+    to?: Date;
+    includeCustomer?: boolean;
+  }
+
+  export interface StampTransactionTotals {
+    transactions: number;
+    stamps: number;
+    bySource: Record<string, { transactions: number; stamps: number }>;
+  }
+
+  export interface StampVoidData {
+    reason: string;
+    stamps?: number; // Defaults to everything not yet reversed
+  }
+
+  export interface StampVoidResult {
+    transactionId: string;
+    reversalId: string;
+    stampsReversed: number;
+    status: StampTransactionStatus;
+    totalStamps: number;
+  }
+
+  export interface LedgerPosting {
+    type: LedgerEntryType;
+    stamps: number; // Signed change to the balance
+    customerId: string;
+    businessId: string;
+    programId: string;
+    stampTransactionId?: string;
+    rewardId?: string;
+    refundedRewardId?: string; // Cancelled voucher the stamps are given back for
+    visits?: number;  // Change to the visit counter
+    rewards?: number; // Change to the reward counter
+  }
+
+  export interface LedgerCounters {
+    totalStamps: number;
+    totalVisits: number;
+    totalRewards: number;
+  }
+
+  export interface LedgerMismatch {
+    customerId: string;
+    field: keyof LedgerCounters;
+    cached: number;
+    expected: number;
+  }
+
+  export interface LedgerReconciliationReport {
+    businessId: string;
+    customersChecked: number;
+    missingEntries: {
+      stampTransactions: number;
+      rewards: number;
+    };
+    mismatches: LedgerMismatch[];
+    repaired: boolean;
+  }
+
+  export interface PurchaseDetails {
+    amount: number;
+    categories?: string[];
+    purchasedAt?: Date; // Defaults to now; read in the business's timezone
+  }
+
+  export interface StampBonusRule {
+    name?: string;
+    category?: string;     // Order must include an item of this category
+    startTime?: string;    // "HH:mm" - with endTime, only during this window (may cross midnight)
+    endTime?: string;
+    daysOfWeek?: number[]; // 0=Sunday; empty or absent = every day
+    bonusStamps: number;
+  }
+
+  export interface StampRuleSettings {
+    stampsPerVisit: number;
+    minSpendForStamp: number;
+    spendPerStamp: number | null;
+    maxStampsPerVisit: number;
+    bonusRules: StampBonusRule[];
+    timezone: string;
+  }
+
+  export interface StampCalculation {
+    stamps: number;
+    baseStamps: number;
+    bonusStamps: number;
+    multiplier: number;
+    capped: boolean;
+    belowMinSpend: boolean;
+    appliedRules: string[];
+  }
+
+  export interface StampAttempt {
+    businessId: string;
+    programId: string;
+    source: StampSource;
+    stamps: number;
+    customerId?: string | null; // Null for a manual grant to a phone number with no customer yet
+    staffId?: string | null;    // Staff member issuing the stamps; null = account owner or self-service
+    customerPhone?: string;
+    qrId?: string;
+    counterDisplayId?: string;
+    purchaseAmount?: number;
+    notes?: string;
+  }
+
+  export interface FraudCheckResult {
+    allowed: boolean;
+    rule?: FraudRule;
+    error?: string;
+    details?: Record<string, unknown>;
+  }
+
+  // What a flag keeps of the blocked attempt, besides the rule's limits and counts at the time
+  export interface FlaggedActivityDetails {
+    programId?: string;
+    customerPhone?: string; // Manual grant to a phone number with no customer yet
+    purchaseAmount?: number;
+    notes?: string;
+    [detail: string]: unknown;
+  }
+
+  export interface FlaggedActivityFilters {
+    page: number;
+    limit: number;
+    status?: FlaggedActivityStatus;
+  }
+
+  export interface FlagReviewData {
+    decision: 'approve' | 'dismiss';
+    note?: string;
+  }
@@ -1,6 +1,10 @@
 // src/utils/auth.ts
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { digestWithKeyRing, signWithKeyRing, verifyWithKeyRing, TokenPurpose } from './keyRing';
+
+export const API_KEY_PREFIX = 'gok_'; // Lets the auth middleware tell API keys from JWTs
 
 /**
  * Hash a plain text password using bcrypt
@@ -37,30 +41,24 @@ export const comparePassword = async (password: string, hashedPassword: string):
 /**
  * Generate a JWT token for business authentication
  * @param businessId - Business ID to include in token
+ * @param sessionId - Server-side session the token belongs to
+ * @param staffId - Staff member acting for the business (omitted for the account owner)
  * @returns string - JWT token
  */
-export const generateBusinessToken = (businessId: string): string => {
+export const generateBusinessToken = (businessId: string, sessionId: string, staffId?: string | null): string => {
   try {
     const payload = {
       businessId,
+      sessionId,
+      ...(staffId ? { staffId } : {}),
       type: 'business',
       issuedAt: Date.now()
     };
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error('JWT_SECRET environment variable is not set');
-    }
-
-    const expiresIn = (process.env.JWT_EXPIRES_IN || '7d') as jwt.SignOptions['expiresIn'];
-
-    const options: jwt.SignOptions = {
-      expiresIn,
-      issuer: 'go-out-loyalty',
-      audience: 'business'
-    };
+    // Access tokens are short-lived; the refresh token keeps the session going
+    const expiresIn = (process.env.JWT_ACCESS_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
 
-    const token = jwt.sign(payload, secret, options);
+    const token = signWithKeyRing('business', payload, expiresIn);
 
     return token;
   } catch (error) {
@@ -73,31 +71,22 @@ export const generateBusinessToken = (businessId: string): string => {
  * Generate a JWT token for customer authentication
  * @param customerId - Customer ID to include in token
  * @param businessId - Business ID the customer belongs to
+ * @param sessionId - Server-side session the token belongs to
  * @returns string - JWT token
  */
-export const generateCustomerToken = (customerId: string, businessId: string): string => {
+export const generateCustomerToken = (customerId: string, businessId: string, sessionId: string): string => {
   try {
     const payload = {
       customerId,
       businessId,
+      sessionId,
       type: 'customer',
       issuedAt: Date.now()
     };
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error('JWT_SECRET environment variable is not set');
-    }
-
     const expiresIn = (process.env.JWT_EXPIRES_IN || '7d') as jwt.SignOptions['expiresIn'];
 
-    const options: jwt.SignOptions = {
-      expiresIn,
-      issuer: 'go-out-loyalty',
-      audience: 'customer'
-    };
-
-    const token = jwt.sign(payload, secret, options);
+    const token = signWithKeyRing('customer', payload, expiresIn);
 
     return token;
   } catch (error) {
@@ -106,15 +95,53 @@ export const generateCustomerToken = (customerId: string, businessId: string): s
   }
 };
 
+/**
+ * Generate an opaque refresh token
+ * @returns string - Random URL-safe token (only its hash is stored)
+ */
+export const generateRefreshToken = (): string => {
+  return crypto.randomBytes(48).toString('base64url');
+};
+
+/**
+ * Generate an API key for integrations
+ * @returns string - Key of the form "gok_<random>" (only its hash is stored)
+ */
+export const generateApiKey = (): string => {
+  return `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+};
+
+/**
+ * Convert a duration like "15m", "7d" or "3600" (seconds) to milliseconds
+ * @param duration - Duration string
+ * @returns number - Milliseconds
+ */
+export const parseDuration = (duration: string): number => {
+  const match = /^(\d+)\s*(ms|s|m|h|d)?$/.exec(duration.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${duration}`);
+  }
+
+  const units: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000
+  };
+
+  return parseInt(match[1]) * units[match[2] || 's'];
+};
+
 /**
  * Generate a short-lived QR token for stamp collection
  * @param businessId - Business ID
  * @param stampsValue - Number of stamps to award
+ * @param qrId - One-time ID the claim is recorded under (default: a new unique ID)
  * @returns string - QR token
  */
-export const generateQrToken = (businessId: string, stampsValue: number): string => {
+export const generateQrToken = (businessId: string, stampsValue: number, qrId: string = generateUniqueId()): string => {
   try {
-    const qrId = generateUniqueId();
     const expiresAt = Date.now() + (30 * 1000); // 30 seconds expiration
 
     const payload = {
@@ -126,18 +153,7 @@ export const generateQrToken = (businessId: string, stampsValue: number): string
       expiresAt
     };
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error('JWT_SECRET environment variable is not set');
-    }
-
-    const options: jwt.SignOptions = {
-      expiresIn: '30s',
-      issuer: 'go-out-loyalty',
-      audience: 'qr-scan'
-    };
-
-    const token = jwt.sign(payload, secret, options);
+    const token = signWithKeyRing('qr', payload, '30s');
 
     return token;
   } catch (error) {
@@ -147,18 +163,14 @@ export const generateQrToken = (businessId: string, stampsValue: number): string
 };
 
 /**
- * Verify and decode a JWT token
+ * Verify and decode a JWT token issued for a specific purpose
  * @param token - JWT token to verify
+ * @param purpose - Expected purpose; tokens for any other purpose or audience are rejected
  * @returns any - Decoded token payload
  */
-export const verifyToken = (token: string): any => {
+export const verifyToken = (token: string, purpose: TokenPurpose): any => {
   try {
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error('JWT_SECRET environment variable is not set');
-    }
-
-    const decoded = jwt.verify(token, secret);
+    const decoded = verifyWithKeyRing(purpose, token);
     return decoded;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -207,12 +219,21 @@ export const generateSecureToken = (length: number = 32): string => {
   let result = '';
   
   for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+    result += chars.charAt(crypto.randomInt(0, chars.length));
   }
   
   return result;
 };
 
+/**
+ * Hash a token for storage so a database leak doesn't expose usable tokens
+ * @param token - Token to hash
+ * @returns string - SHA-256 hex digest
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
 /**
  * Check if a token is expired
  * @param token - JWT token to check
@@ -255,6 +276,91 @@ export const sanitizeEmail = (email: string): string => {
   return email.toLowerCase().trim();
 };
 
+/**
+ * Normalize a phone number to E.164 format
+ * @param phone - Phone number as entered (e.g. "(555) 123-4567")
+ * @returns string - Normalized phone number (e.g. "+15551234567")
+ */
+export const normalizePhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+
+  // Assume US/Canada numbers when no country code is given
+  if (digits.length === 10) {
+    return `+1${digits}`;
+  }
+
+  return `+${digits}`;
+};
+
+/**
+ * Generate a numeric one-time code for SMS verification
+ * @param length - Number of digits (default: 6)
+ * @returns string - One-time code
+ */
+export const generateOtpCode = (length: number = 6): string => {
+  let code = '';
+
+  for (let i = 0; i < length; i++) {
+    code += crypto.randomInt(0, 10).toString();
+  }
+
+  return code;
+};
+
+// No 0/O, 1/I/L - voucher codes are read out and typed in by staff
+const VOUCHER_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generate a short human-readable voucher code, e.g. "K7QM-3XRP"
+ * @returns string - Eight characters in two groups
+ */
+export const generateVoucherCode = (): string => {
+  let code = '';
+
+  for (let i = 0; i < 8; i++) {
+    code += VOUCHER_CODE_ALPHABET.charAt(crypto.randomInt(0, VOUCHER_CODE_ALPHABET.length));
+  }
+
+  return `${code.substring(0, 4)}-${code.substring(4)}`;
+};
+
+/**
+ * Normalize a voucher code as typed or scanned (case, spaces, missing dash)
+ * @param code - Code entered by staff
+ * @returns string - Code in the stored "XXXX-XXXX" form
+ */
+export const normalizeVoucherCode = (code: string): string => {
+  const characters = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return characters.length === 8 ? `${characters.substring(0, 4)}-${characters.substring(4)}` : characters;
+};
+
+/**
+ * Hash a one-time code for storage
+ * @param phone - Phone number the code was sent to
+ * @param code - Plain one-time code
+ * @returns string - HMAC-SHA256 hex digest with the active key ring key
+ */
+export const hashOtp = (phone: string, code: string): string => {
+  return digestWithKeyRing('otp', `${phone}:${code}`)[0];
+};
+
+/**
+ * Compare a one-time code against its stored hash in constant time
+ * @param phone - Phone number the code was sent to
+ * @param code - Plain one-time code entered by the customer
+ * @param otpHash - Stored hash
+ * @returns boolean - True if the code matches
+ */
+export const compareOtp = (phone: string, code: string, otpHash: string): boolean => {
+  const stored = Buffer.from(otpHash, 'hex');
+
+  // Any key in the ring, so a code sent just before a key rotation still works
+  return digestWithKeyRing('otp', `${phone}:${code}`).some(digest => {
+    const candidate = Buffer.from(digest, 'hex');
+    return candidate.length === stored.length && crypto.timingSafeEqual(candidate, stored);
+  });
+};
+
 /**
  * Generate password reset token
  * @param businessId - Business ID
@@ -268,18 +374,7 @@ export const generatePasswordResetToken = (businessId: string): string => {
       issuedAt: Date.now()
     };
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error('JWT_SECRET environment variable is not set');
-    }
-
-    const options: jwt.SignOptions = {
-      expiresIn: '1h', // 1 hour expiration for password reset
-      issuer: 'go-out-loyalty',
-      audience: 'password-reset'
-    };
-
-    const token = jwt.sign(payload, secret, options);
+    const token = signWithKeyRing('password_reset', payload, '1h'); // 1 hour expiration for password reset
 
     return token;
   } catch (error) {
@@ -301,29 +396,44 @@ export const generateEmailVerificationToken = (businessId: string): string => {
       issuedAt: Date.now()
     };
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error('JWT_SECRET environment variable is not set');
-    }
+    const token = signWithKeyRing('email_verification', payload, '24h'); // 24 hours for email verification
+
+    return token;
+  } catch (error) {
+    console.error('❌ Email verification token generation error:', error);
+    throw new Error('Failed to generate email verification token');
+  }
+};
 
-    const options: jwt.SignOptions = {
-      expiresIn: '24h', // 24 hours for email verification
-      issuer: 'go-out-loyalty',
-      audience: 'email-verification'
+/**
+ * Generate a short-lived token proving the password step of a 2FA sign-in passed
+ * @param businessId - Business ID
+ * @param rememberMe - Carried through so the final session gets the right lifetime
+ * @returns string - 2FA pending token
+ */
+export const generateTwoFactorPendingToken = (businessId: string, rememberMe: boolean = false): string => {
+  try {
+    const payload = {
+      businessId,
+      rememberMe,
+      type: '2fa_pending',
+      issuedAt: Date.now()
     };
 
-    const token = jwt.sign(payload, secret, options);
+    const token = signWithKeyRing('2fa_pending', payload, '5m'); // Enough time to open the authenticator app
 
     return token;
   } catch (error) {
-    console.error('❌ Email verification token generation error:', error);
-    throw new Error('Failed to generate email verification token');
+    console.error('❌ 2FA pending token generation error:', error);
+    throw new Error('Failed to generate 2FA pending token');
   }
 };
 
 // Type definitions for token payloads
 export interface BusinessTokenPayload {
   businessId: string;
+  sessionId: string;
+  staffId?: string;
   type: 'business';
   issuedAt: number;
   iat: number;
@@ -335,6 +445,7 @@ export interface BusinessTokenPayload {
 export interface CustomerTokenPayload {
   customerId: string;
   businessId: string;
+  sessionId: string;
   type: 'customer';
   issuedAt: number;
   iat: number;
@@ -16,21 +16,49 @@ export class CookieHelper {
     };
   }
 
-  static setAuthCookie(res: Response, token: string, rememberMe: boolean = false): void {
-    res.cookie('auth_token', token, this.getCookieOptions(rememberMe));
-  }
-
-  static clearAuthCookie(res: Response): void {
-    res.clearCookie('auth_token', {
+  private static getClearCookieOptions(path: string = '/') {
+    return {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      path: '/',
+      sameSite: 'strict' as const,
+      path,
       domain: process.env.NODE_ENV === 'production' 
         ? process.env.COOKIE_DOMAIN 
         : undefined
+    };
+  }
+
+  // The refresh token is only ever sent to the refresh endpoint
+  static readonly REFRESH_COOKIE_PATH = '/api/auth/refresh';
+
+  /**
+   * Set the short-lived access token and the rotating refresh token.
+   * Both cookies live as long as the session; the access JWT itself expires much sooner.
+   */
+  static setAuthCookies(res: Response, accessToken: string, refreshToken: string, sessionExpiresAt: Date): void {
+    const maxAge = Math.max(sessionExpiresAt.getTime() - Date.now(), 0);
+
+    res.cookie('auth_token', accessToken, { ...this.getCookieOptions(), maxAge });
+    res.cookie('refresh_token', refreshToken, {
+      ...this.getCookieOptions(),
+      maxAge,
+      path: this.REFRESH_COOKIE_PATH
     });
   }
+
+  static clearAuthCookies(res: Response): void {
+    res.clearCookie('auth_token', this.getClearCookieOptions());
+    res.clearCookie('refresh_token', this.getClearCookieOptions(this.REFRESH_COOKIE_PATH));
+  }
+
+  static setCustomerAuthCookie(res: Response, token: string): void {
+    // Customers sign in by SMS, so keep them signed in for as long as the token allows
+    res.cookie('customer_token', token, this.getCookieOptions(true));
+  }
+
+  static clearCustomerAuthCookie(res: Response): void {
+    res.clearCookie('customer_token', this.getClearCookieOptions());
+  }
 }
 // This utility class helps manage authentication cookies in a secure and consistent way.
 // It provides methods to set and clear cookies with appropriate options based on the environment.
@@ -0,0 +1,158 @@
+// src/utils/keyRing.ts
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+export type TokenPurpose =
+  | 'business'
+  | 'customer'
+  | 'qr'
+  | 'password_reset'
+  | 'email_verification'
+  | '2fa_pending';
+
+const TOKEN_ISSUER = 'go-out-loyalty';
+
+// Audience each purpose is signed for and must be verified against
+const TOKEN_AUDIENCES: Record<TokenPurpose, string> = {
+  business: 'business',
+  customer: 'customer',
+  qr: 'qr-scan',
+  password_reset: 'password-reset',
+  email_verification: 'email-verification',
+  '2fa_pending': '2fa-pending'
+};
+
+// Keys that sign digests rather than tokens
+export type DigestPurpose = 'otp';
+
+interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+let cachedSource: string | undefined;
+let cachedKeys: SigningKey[] = [];
+
+/**
+ * Load the key ring from the environment
+ * JWT_SIGNING_KEYS="kid:secret,kid:secret" - the first key signs, all of them verify.
+ * Without it, JWT_SECRET is used as a single key with kid "default".
+ * @returns SigningKey[] - Keys, active key first
+ */
+const getSigningKeys = (): SigningKey[] => {
+  const source = process.env.JWT_SIGNING_KEYS || '';
+  if (source === cachedSource && cachedKeys.length > 0) {
+    return cachedKeys;
+  }
+
+  const keys = source
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error('JWT_SIGNING_KEYS entries must look like "kid:secret"');
+      }
+      return { kid: entry.substring(0, separator), secret: entry.substring(separator + 1) };
+    });
+
+  if (keys.length === 0 && process.env.JWT_SECRET) {
+    keys.push({ kid: 'default', secret: process.env.JWT_SECRET });
+  }
+
+  if (keys.length === 0) {
+    throw new Error('JWT_SIGNING_KEYS or JWT_SECRET environment variable must be set');
+  }
+
+  cachedSource = source;
+  cachedKeys = keys;
+  return keys;
+};
+
+/**
+ * Derive a per-purpose key so a token for one purpose can never verify as another
+ * @param secret - Key ring secret
+ * @param purpose - Token or digest purpose
+ * @returns string - Derived HMAC key
+ */
+const derivePurposeKey = (secret: string, purpose: TokenPurpose | DigestPurpose): string => {
+  return crypto.createHmac('sha256', secret).update(`go-out:${purpose}`).digest('hex');
+};
+
+/**
+ * HMAC a value with the purpose key of every key in the ring
+ * The first digest uses the active key; the others let a digest stored before a rotation still match
+ * @param purpose - Digest purpose
+ * @param value - Value to digest
+ * @returns string[] - HMAC-SHA256 hex digests, active key first
+ */
+export const digestWithKeyRing = (purpose: DigestPurpose, value: string): string[] => {
+  return getSigningKeys().map(signingKey =>
+    crypto.createHmac('sha256', derivePurposeKey(signingKey.secret, purpose)).update(value).digest('hex')
+  );
+};
+
+/**
+ * Sign a token for a purpose with the active key (kid in the header)
+ * @param purpose - Token purpose, also written to the "type" claim
+ * @param payload - Claims to include
+ * @param expiresIn - Lifetime, e.g. "15m"
+ * @returns string - Signed JWT
+ */
+export const signWithKeyRing = (
+  purpose: TokenPurpose,
+  payload: object,
+  expiresIn: jwt.SignOptions['expiresIn']
+): string => {
+  const [activeKey] = getSigningKeys();
+
+  return jwt.sign({ ...payload, type: purpose }, derivePurposeKey(activeKey.secret, purpose), {
+    algorithm: 'HS256',
+    keyid: activeKey.kid,
+    expiresIn,
+    issuer: TOKEN_ISSUER,
+    audience: TOKEN_AUDIENCES[purpose]
+  });
+};
+
+/**
+ * Verify a token for a purpose, enforcing signature, issuer, audience and type
+ * Tokens without a kid predate the key ring and are checked against JWT_SECRET
+ * @param purpose - Expected token purpose
+ * @param token - JWT to verify
+ * @returns any - Decoded payload
+ * @throws jwt.JsonWebTokenError / jwt.TokenExpiredError
+ */
+export const verifyWithKeyRing = (purpose: TokenPurpose, token: string): any => {
+  const header = jwt.decode(token, { complete: true })?.header;
+  if (!header) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  let key: string;
+  if (header.kid) {
+    const signingKey = getSigningKeys().find(candidate => candidate.kid === header.kid);
+    if (!signingKey) {
+      throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+    key = derivePurposeKey(signingKey.secret, purpose);
+  } else {
+    if (!process.env.JWT_SECRET) {
+      throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+    key = process.env.JWT_SECRET;
+  }
+
+  const decoded = jwt.verify(token, key, {
+    algorithms: ['HS256'],
+    issuer: TOKEN_ISSUER,
+    audience: TOKEN_AUDIENCES[purpose]
+  }) as any;
+
+  if (decoded.type !== purpose) {
+    throw new jwt.JsonWebTokenError('jwt type invalid');
+  }
+
+  return decoded;
+};
@@ -0,0 +1,41 @@
+// src/utils/requestBody.ts
+
+/*
+ * Readers for request body fields the validation middleware has already checked
+ * Bodies are parsed JSON, so numbers and dates may still arrive as strings; null is kept
+ * (it clears a field) and anything of the wrong type reads as undefined (left unchanged)
+ */
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const readString = (value: unknown): string | null | undefined => {
+  if (value === null) return null;
+  return typeof value === 'string' ? value : undefined;
+};
+
+export const readBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === '1' || value === 1) return true;
+  if (value === 'false' || value === '0' || value === 0) return false;
+  return undefined;
+};
+
+/**
+ * @param parse - parseInt or parseFloat, for numbers sent as strings
+ */
+export const readNumber = (value: unknown, parse: (value: string) => number): number | null | undefined => {
+  if (value === null) return null;
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' ? parse(value) : undefined;
+};
+
+export const readDate = (value: unknown): Date | null | undefined => {
+  if (value === null) return null;
+  return typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+};
+
+export const readStringList = (value: unknown): string[] | undefined => {
+  return Array.isArray(value) && value.every(item => typeof item === 'string') ? value : undefined;
+};
@@ -0,0 +1,97 @@
+import { Request } from 'express';
+import { Actor, AuthRequest, ClientContext, StaffRole } from '../types/auth';
+import { AuditContext } from '../types/audit';
+
+/**
+ * Collect the caller's IP address and user agent
+ * @param req - Express request
+ * @returns ClientContext - IP and user agent (if known)
+ */
+export const getClientContext = (req: Request): ClientContext => {
+  return {
+    ipAddress: req.ip || req.socket?.remoteAddress || undefined,
+    userAgent: req.get('User-Agent')?.substring(0, 512) || undefined
+  };
+};
+
+/**
+ * Turn a user agent string into a short device label, e.g. "Chrome on macOS"
+ * @param userAgent - Raw User-Agent header
+ * @returns string - Human readable device description
+ */
+export const describeUserAgent = (userAgent?: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Chrome\//, 'Chrome'],
+    [/Firefox\//, 'Firefox'],
+    [/Safari\//, 'Safari'],
+    [/curl\//, 'curl']
+  ];
+  const systems: [RegExp, string][] = [
+    [/iPhone|iPad/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux']
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || 'Unknown device';
+};
+
+/**
+ * Identify who is acting on behalf of the business
+ * @param req - Request that passed authenticateBusiness
+ * @returns Actor - Staff member, API key, or the account owner
+ */
+export const getActor = (req: Request): Actor => {
+  const { business, staff, apiKey } = req as AuthRequest;
+
+  if (apiKey) {
+    return { staffId: null, apiKeyId: apiKey.id, name: `API key: ${apiKey.name}`, role: 'api_key' };
+  }
+
+  if (staff) {
+    return staffActor(staff);
+  }
+
+  return ownerActor(business?.name || 'Owner');
+};
+
+/**
+ * Actor for the business account holder
+ * @param businessName - Shown as the actor's name
+ * @returns Actor
+ */
+export const ownerActor = (businessName: string): Actor => {
+  return { staffId: null, name: businessName, role: 'owner' };
+};
+
+/**
+ * Actor for a staff member
+ * @param staff - Staff member record
+ * @returns Actor
+ */
+export const staffActor = (staff: { id: string; name: string; role: string }): Actor => {
+  return { staffId: staff.id, name: staff.name, role: staff.role as StaffRole };
+};
+
+/**
+ * Who is acting and from where, for the audit log
+ * @param req - Request that passed authenticateBusiness (or none, for anonymous actions)
+ * @returns AuditContext - Actor plus IP and user agent
+ */
+export const getAuditContext = (req: Request): AuditContext => {
+  const { business } = req as AuthRequest;
+
+  return {
+    actor: business ? getActor(req) : null,
+    ...getClientContext(req)
+  };
+};
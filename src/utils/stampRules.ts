@@ -0,0 +1,163 @@
+// src/utils/stampRules.ts
+import { Prisma } from '@prisma/client';
+import { PurchaseDetails, StampBonusRule, StampCalculation, StampRuleSettings } from '../types/stamps';
+
+export interface ActivePromotion {
+  id: string;
+  title: string;
+  type: string;
+}
+
+// Promotion types that change how many stamps a purchase earns
+const PROMOTION_MULTIPLIERS: Record<string, number> = {
+  double_stamps: 2
+};
+
+/**
+ * Bonus rules as the value of a Json column: null clears them, undefined leaves them as they are
+ */
+export const bonusRulesToJson = (rules: StampBonusRule[] | null | undefined) => {
+  if (rules === undefined) return undefined;
+
+  return rules === null ? Prisma.DbNull : (rules as unknown as Prisma.InputJsonArray);
+};
+
+export interface LocalTime {
+  date: string;    // YYYY-MM-DD
+  day: number;     // 0=Sunday
+  minutes: number; // Minutes past midnight
+}
+
+/**
+ * Calendar date, day of week and time of day of a moment in a timezone
+ * Falls back to UTC if the timezone is unknown
+ */
+export const getLocalTime = (date: Date, timezone: string): LocalTime => {
+  let local: Date;
+  try {
+    local = new Date(date.toLocaleString('en-US', { timeZone: timezone }));
+  } catch (error) {
+    local = new Date(date.toLocaleString('en-US', { timeZone: 'UTC' }));
+  }
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return {
+    date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+    day: local.getDay(),
+    minutes: local.getHours() * 60 + local.getMinutes()
+  };
+};
+
+const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part));
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a time of day falls in a window that may cross midnight, e.g. 22:00-02:00
+ */
+export const isWithinTimeWindow = (minutes: number, startTime: string, endTime: string): boolean => {
+  const start = parseTime(startTime);
+  const end = parseTime(endTime);
+
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+/**
+ * Whether a bonus rule applies to a purchase
+ */
+const ruleApplies = (rule: StampBonusRule, categories: string[], local: LocalTime): boolean => {
+  if (rule.category && !categories.includes(rule.category.toLowerCase())) {
+    return false;
+  }
+
+  if (rule.daysOfWeek && rule.daysOfWeek.length > 0 && !rule.daysOfWeek.includes(local.day)) {
+    return false;
+  }
+
+  if (rule.startTime && rule.endTime && !isWithinTimeWindow(local.minutes, rule.startTime, rule.endTime)) {
+    return false;
+  }
+
+  return true;
+};
+
+const describeRule = (rule: StampBonusRule): string => {
+  if (rule.name) return rule.name;
+
+  const conditions = [
+    rule.category ? `category "${rule.category}"` : '',
+    rule.startTime && rule.endTime ? `${rule.startTime}-${rule.endTime}` : ''
+  ].filter(Boolean);
+
+  return `+${rule.bonusStamps} (${conditions.join(', ') || 'every purchase'})`;
+};
+
+/**
+ * Work out how many stamps a purchase earns
+ * Order: minimum spend, base stamps (per $X spent or per visit), bonus rules,
+ * promotion multiplier, then the per-visit cap
+ * @param rules - The business's stamp rules
+ * @param purchase - The order; without one the visit earns stampsPerVisit
+ * @param promotions - Promotions running right now
+ * @returns StampCalculation - Stamps and how they were arrived at
+ */
+export const calculateStamps = (
+  rules: StampRuleSettings,
+  purchase: PurchaseDetails | undefined,
+  promotions: ActivePromotion[] = []
+): StampCalculation => {
+  const appliedRules: string[] = [];
+
+  if (purchase && purchase.amount < rules.minSpendForStamp) {
+    return {
+      stamps: 0,
+      baseStamps: 0,
+      bonusStamps: 0,
+      multiplier: 1,
+      capped: false,
+      belowMinSpend: true,
+      appliedRules
+    };
+  }
+
+  let baseStamps = rules.stampsPerVisit;
+  if (purchase && rules.spendPerStamp) {
+    // Small epsilon so $10.00 / $2.50 isn't floored to 3 by float error
+    baseStamps = Math.floor(purchase.amount / rules.spendPerStamp + 1e-9);
+    appliedRules.push(`1 stamp per ${rules.spendPerStamp.toFixed(2)} spent`);
+  }
+
+  const categories = (purchase?.categories || []).map(category => category.toLowerCase());
+  const local = getLocalTime(purchase?.purchasedAt || new Date(), rules.timezone);
+
+  const bonusStamps = rules.bonusRules
+    .filter(rule => ruleApplies(rule, categories, local))
+    .reduce((total, rule) => {
+      appliedRules.push(describeRule(rule));
+      return total + rule.bonusStamps;
+    }, 0);
+
+  const multiplier = promotions.reduce((highest, promotion) => {
+    const promotionMultiplier = PROMOTION_MULTIPLIERS[promotion.type] || 1;
+    if (promotionMultiplier > 1) {
+      appliedRules.push(`Promotion: ${promotion.title}`);
+    }
+    return Math.max(highest, promotionMultiplier);
+  }, 1);
+
+  const total = (baseStamps + bonusStamps) * multiplier;
+
+  return {
+    stamps: Math.min(total, rules.maxStampsPerVisit),
+    baseStamps,
+    bonusStamps,
+    multiplier,
+    capped: total > rules.maxStampsPerVisit,
+    belowMinSpend: false,
+    appliedRules
+  };
+};
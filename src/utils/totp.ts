@@ -0,0 +1,160 @@
+// src/utils/totp.ts
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as RFC 4648 base32 (no padding), as authenticator apps expect
+ * @param buffer - Bytes to encode
+ * @returns string - Base32 string
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode an RFC 4648 base32 string
+ * @param input - Base32 string (case-insensitive, padding and spaces ignored)
+ * @returns Buffer - Decoded bytes
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate a random TOTP secret
+ * @param bytes - Secret length in bytes (default: 20, i.e. 160 bits)
+ * @returns string - Base32 encoded secret
+ */
+export const generateTotpSecret = (bytes: number = 20): string => {
+  return base32Encode(crypto.randomBytes(bytes));
+};
+
+/**
+ * Compute an HOTP code (RFC 4226)
+ * @param secret - Base32 encoded secret
+ * @param counter - Moving factor
+ * @param digits - Code length (default: 6)
+ * @returns string - Zero-padded code
+ */
+export const generateHotp = (secret: string, counter: number, digits: number = 6): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  counterBuffer.writeUInt32BE(counter % 2 ** 32, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+/**
+ * Get the TOTP time step for a moment in time
+ * @param timestamp - Milliseconds since epoch (default: now)
+ * @param stepSeconds - Step length (default: 30)
+ * @returns number - Time step counter
+ */
+export const getTotpStep = (timestamp: number = Date.now(), stepSeconds: number = 30): number => {
+  return Math.floor(timestamp / 1000 / stepSeconds);
+};
+
+/**
+ * Compute the current TOTP code (RFC 6238)
+ * @param secret - Base32 encoded secret
+ * @param timestamp - Milliseconds since epoch (default: now)
+ * @param stepSeconds - Step length (default: 30)
+ * @returns string - 6 digit code
+ */
+export const generateTotp = (secret: string, timestamp: number = Date.now(), stepSeconds: number = 30): string => {
+  return generateHotp(secret, getTotpStep(timestamp, stepSeconds));
+};
+
+/**
+ * Check a TOTP code, allowing for a little clock drift
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param window - Steps to accept either side of now (default: 1)
+ * @param stepSeconds - Step length (default: 30)
+ * @returns number | null - The matching time step, or null if the code is wrong
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  window: number = 1,
+  stepSeconds: number = 30
+): number | null => {
+  const currentStep = getTotpStep(Date.now(), stepSeconds);
+  const candidate = Buffer.from(code);
+
+  for (let drift = -window; drift <= window; drift++) {
+    const expected = Buffer.from(generateHotp(secret, currentStep + drift));
+    if (expected.length === candidate.length && crypto.timingSafeEqual(expected, candidate)) {
+      return currentStep + drift;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from a QR code
+ * @param secret - Base32 encoded secret
+ * @param accountName - Usually the user's email
+ * @param issuer - App name shown in the authenticator
+ * @returns string - otpauth URI
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string = 'Go Out!'): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: '6',
+    period: '30'
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
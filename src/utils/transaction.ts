@@ -0,0 +1,24 @@
+// src/utils/transaction.ts
+import { Prisma } from '@prisma/client';
+import { DbClient } from '../types/database';
+
+/**
+ * Run a function in a transaction: the caller's, if the client already is a transaction client, otherwise a new one
+ * @param client - Prisma client or transaction client
+ * @param fn - Work to run
+ * @returns What fn returns
+ */
+export const inTransaction = <T>(client: DbClient, fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> => {
+  return '$transaction' in client ? client.$transaction(fn) : fn(client);
+};
+
+/**
+ * Take a lock on a key that is held until the transaction ends
+ * Serializes "find or create" of rows the schema can't keep unique, e.g. one default per business
+ * @param tx - Transaction client
+ * @param scope - What is being locked, e.g. "default_reward_tier"
+ * @param key - Which one, e.g. the business ID
+ */
+export const lockUntilCommit = async (tx: Prisma.TransactionClient, scope: string, key: string): Promise<void> => {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`${scope}:${key}`}))`;
+};
@@ -1,6 +1,9 @@
 // src/utils/validation.ts
-import { body, validationResult, ValidationChain } from 'express-validator';
+import { body, query, validationResult, ValidationChain } from 'express-validator';
 import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { API_KEY_SCOPES } from '../types/auth';
+import { FLAGGED_ACTIVITY_STATUSES, STAMP_SOURCES } from '../types/stamps';
+import { VOUCHER_STATUSES } from '../types/rewards';
 
 /**
  * Handle validation errors middleware
@@ -180,6 +183,67 @@ export const customerSignupValidation: (ValidationChain | RequestHandler)[] = [
   handleValidationErrors
 ];
 
+/**
+ * Customer OTP verification validation middleware
+ */
+export const otpVerificationValidation: (ValidationChain | RequestHandler)[] = [
+  body('phone')
+    .trim()
+    .notEmpty()
+    .withMessage('Phone number is required')
+    .matches(/^\+?1?[-.\s]?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})$/)
+    .withMessage('Please enter a valid phone number'),
+
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Verification code is required')
+    .matches(/^\d{6}$/)
+    .withMessage('Verification code must be 6 digits'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Stamp bonus rules (business settings and program overrides)
+ */
+const stampBonusRuleValidation: ValidationChain[] = [
+  body('stampBonusRules')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Bonus rules must be a list of at most 20 rules'),
+
+  body('stampBonusRules.*')
+    .custom(rule => !!rule && (!!rule.startTime === !!rule.endTime))
+    .withMessage('A bonus rule needs both startTime and endTime, or neither'),
+
+  body('stampBonusRules.*.bonusStamps')
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Bonus stamps must be between 1 and 10'),
+
+  body(['stampBonusRules.*.name', 'stampBonusRules.*.category'])
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Rule names and categories must be 1-50 characters'),
+
+  body(['stampBonusRules.*.startTime', 'stampBonusRules.*.endTime'])
+    .optional()
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Times must look like "14:30"'),
+
+  body('stampBonusRules.*.daysOfWeek')
+    .optional()
+    .isArray({ max: 7 })
+    .withMessage('Days of week must be a list'),
+
+  body('stampBonusRules.*.daysOfWeek.*')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Days of week run from 0 (Sunday) to 6')
+];
+
 /**
  * Business profile update validation middleware
  */
@@ -218,6 +282,38 @@ export const businessUpdateValidation: (ValidationChain | RequestHandler)[] = [
     .isInt({ min: 1, max: 20 })
     .withMessage('Maximum stamps per visit must be between 1 and 20'),
 
+  body('displayClaimCooldownMinutes')
+    .optional()
+    .isInt({ min: 1, max: 10080 })
+    .withMessage('Counter display cooldown must be between 1 minute and 7 days'),
+
+  body('minMinutesBetweenVisits')
+    .optional()
+    .isInt({ min: 0, max: 1440 })
+    .withMessage('Minimum time between visits must be between 0 minutes and 24 hours'),
+
+  body(['maxDailyStampsPerCustomer', 'maxDailyStampsPerStaff'])
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 10000 })
+    .withMessage('Daily stamp limits must be between 1 and 10000'),
+
+  body('enforceBusinessHours')
+    .optional()
+    .isBoolean()
+    .withMessage('Enforce business hours must be true or false'),
+
+  body('minSpendForStamp')
+    .optional()
+    .isFloat({ min: 0, max: 1000 })
+    .withMessage('Minimum spend must be between $0 and $1000'),
+
+  body('spendPerStamp')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0.01, max: 1000 })
+    .withMessage('Spend per stamp must be between $0.01 and $1000'),
+
+  ...stampBonusRuleValidation,
+
   body('stampsForReward')
     .optional()
     .isInt({ min: 5, max: 50 })
@@ -243,15 +339,85 @@ export const businessUpdateValidation: (ValidationChain | RequestHandler)[] = [
   handleValidationErrors
 ];
 
+/**
+ * Purchase details used by the stamp rules
+ * @param required - Whether the purchase object must be present
+ */
+const purchaseValidation = (required: boolean): ValidationChain[] => [
+  (required ? body('purchase').exists().withMessage('Purchase details are required') : body('purchase').optional())
+    .isObject()
+    .withMessage('Purchase must be an object'),
+
+  body('purchase.amount')
+    .if(body('purchase').exists())
+    .isFloat({ min: 0, max: 100000 })
+    .withMessage('Purchase amount must be a positive number'),
+
+  body('purchase.categories')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Categories must be a list'),
+
+  body('purchase.categories.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Each category must be 1-50 characters'),
+
+  body('purchase.purchasedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Purchase time must be ISO 8601')
+];
+
+/**
+ * Stamp preview validation middleware
+ */
+export const stampPreviewValidation: (ValidationChain | RequestHandler)[] = [
+  body('programId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Program ID must not be empty'),
+
+  ...purchaseValidation(true),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
 /**
  * QR generation validation middleware
  */
 export const qrGenerationValidation: (ValidationChain | RequestHandler)[] = [
+  body('programId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Program ID must not be empty'),
+
   body('stampsValue')
     .optional()
     .isInt({ min: 1, max: 10 })
     .withMessage('Stamps value must be between 1 and 10'),
 
+  ...purchaseValidation(false),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * QR claim validation middleware
+ */
+export const qrClaimValidation: (ValidationChain | RequestHandler)[] = [
+  body('token')
+    .trim()
+    .notEmpty()
+    .withMessage('QR token is required'),
+
   // Handle validation errors
   handleValidationErrors
 ];
@@ -267,10 +433,20 @@ export const manualStampValidation: (ValidationChain | RequestHandler)[] = [
     .matches(/^\+?1?[-.\s]?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})$/)
     .withMessage('Please enter a valid phone number'),
 
+  body('programId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Program ID must not be empty'),
+
   body('stampsValue')
+    .optional()
     .isInt({ min: 1, max: 10 })
     .withMessage('Stamps value must be between 1 and 10'),
 
+  ...purchaseValidation(false),
+
   body('notes')
     .optional()
     .trim()
@@ -315,6 +491,24 @@ export const passwordResetValidation: (ValidationChain | RequestHandler)[] = [
   handleValidationErrors
 ];
 
+/**
+ * Password change validation middleware
+ */
+export const passwordChangeValidation: (ValidationChain | RequestHandler)[] = [
+  body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required'),
+
+  body('newPassword')
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Password must be between 8 and 128 characters')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
+    .withMessage('Password must contain at least one uppercase letter, lowercase letter, number, and special character'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
 /**
  * Email verification validation middleware
  */
@@ -325,4 +519,624 @@ export const emailVerificationValidation: (ValidationChain | RequestHandler)[] =
 
   // Handle validation errors
   handleValidationErrors
-];
\ No newline at end of file
+];
+
+/**
+ * Staff invite validation middleware
+ */
+export const staffInviteValidation: (ValidationChain | RequestHandler)[] = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Please enter a valid email address')
+    .normalizeEmail(),
+
+  body('role')
+    .isIn(['owner', 'manager', 'cashier'])
+    .withMessage('Role must be owner, manager or cashier'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Staff update validation middleware
+ */
+export const staffUpdateValidation: (ValidationChain | RequestHandler)[] = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+
+  body('role')
+    .optional()
+    .isIn(['owner', 'manager', 'cashier'])
+    .withMessage('Role must be owner, manager or cashier'),
+
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean value'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Staff invite acceptance validation middleware
+ */
+export const staffAcceptInviteValidation: (ValidationChain | RequestHandler)[] = [
+  body('token')
+    .notEmpty()
+    .withMessage('Invite token is required'),
+
+  body('password')
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Password must be between 8 and 128 characters')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
+    .withMessage('Password must contain at least one uppercase letter, lowercase letter, number, and special character'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Two-factor code validation middleware (setup confirmation, recovery code regeneration)
+ */
+export const twoFactorCodeValidation: (ValidationChain | RequestHandler)[] = [
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Two-factor sign-in validation middleware
+ * Accepts either an authenticator code or a recovery code
+ */
+export const twoFactorVerifyValidation: (ValidationChain | RequestHandler)[] = [
+  body('twoFactorToken')
+    .notEmpty()
+    .withMessage('Two-factor token is required'),
+
+  body('code')
+    .if(body('recoveryCode').not().exists())
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits'),
+
+  body('recoveryCode')
+    .optional()
+    .trim()
+    .isLength({ min: 10, max: 11 })
+    .withMessage('Recovery code is invalid'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Two-factor disable validation middleware
+ */
+export const twoFactorDisableValidation: (ValidationChain | RequestHandler)[] = [
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+
+  body('code')
+    .if(body('recoveryCode').not().exists())
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits'),
+
+  body('recoveryCode')
+    .optional()
+    .trim()
+    .isLength({ min: 10, max: 11 })
+    .withMessage('Recovery code is invalid'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * API key creation validation middleware
+ */
+export const apiKeyCreateValidation: (ValidationChain | RequestHandler)[] = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('At least one scope is required'),
+
+  body('scopes.*')
+    .isIn(API_KEY_SCOPES)
+    .withMessage(`Scopes must be any of: ${API_KEY_SCOPES.join(', ')}`),
+
+  body('expiresInDays')
+    .optional()
+    .isInt({ min: 1, max: 730 })
+    .withMessage('Expiry must be between 1 and 730 days')
+    .toInt(),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Counter display creation validation middleware
+ */
+export const counterDisplayCreateValidation: (ValidationChain | RequestHandler)[] = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+
+  body('rotationSeconds')
+    .optional()
+    .isInt({ min: 10, max: 300 })
+    .withMessage('Rotation must be between 10 and 300 seconds')
+    .toInt(),
+
+  body('stampsValue')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Stamps value must be between 1 and 10')
+    .toInt(),
+
+  body('programId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Program ID must not be empty'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Counter display claim validation middleware
+ */
+export const displayClaimValidation: (ValidationChain | RequestHandler)[] = [
+  body('displayId')
+    .trim()
+    .notEmpty()
+    .withMessage('Display is required'),
+
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Audit log query validation middleware
+ */
+export const auditLogQueryValidation: (ValidationChain | RequestHandler)[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive number')
+    .toInt(),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+
+  query('action')
+    .optional()
+    .trim()
+    .matches(/^[a-z0-9_.]+$/)
+    .withMessage('Action must look like "auth.signin" or "auth."'),
+
+  query(['from', 'to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Dates must be ISO 8601'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Stamp transaction history query validation middleware
+ */
+export const stampHistoryQueryValidation: (ValidationChain | RequestHandler)[] = [
+  query('cursor')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Cursor must not be empty'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+
+  query('programId')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Program ID must not be empty'),
+
+  query('source')
+    .optional()
+    .isIn(STAMP_SOURCES)
+    .withMessage(`Source must be one of: ${STAMP_SOURCES.join(', ')}`),
+
+  query(['from', 'to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Dates must be ISO 8601'),
+
+  query('includeCustomer')
+    .optional()
+    .isBoolean()
+    .withMessage('includeCustomer must be true or false'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Stamp transaction void validation middleware
+ */
+export const stampVoidValidation: (ValidationChain | RequestHandler)[] = [
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('A reason is required')
+    .isLength({ max: 500 })
+    .withMessage('Reason must be less than 500 characters'),
+
+  body('stamps')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Stamps must be a positive number')
+    .toInt(),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Flagged activity query validation middleware
+ */
+export const flaggedActivityQueryValidation: (ValidationChain | RequestHandler)[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive number')
+    .toInt(),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+
+  query('status')
+    .optional()
+    .isIn(FLAGGED_ACTIVITY_STATUSES)
+    .withMessage(`Status must be one of: ${FLAGGED_ACTIVITY_STATUSES.join(', ')}`),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Flagged activity review validation middleware
+ */
+export const flagReviewValidation: (ValidationChain | RequestHandler)[] = [
+  body('decision')
+    .isIn(['approve', 'dismiss'])
+    .withMessage('Decision must be "approve" or "dismiss"'),
+
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note must be less than 500 characters'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Reward redemption validation middleware
+ */
+export const rewardRedemptionValidation: (ValidationChain | RequestHandler)[] = [
+  body('customerId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Customer ID must not be empty'),
+
+  body('customerPhone')
+    .if(body('customerId').not().exists())
+    .trim()
+    .notEmpty()
+    .withMessage('Customer ID or phone number is required')
+    .matches(/^\+?1?[-.\s]?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})$/)
+    .withMessage('Please enter a valid phone number'),
+
+  body('tierId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Reward tier ID must not be empty'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description must be less than 200 characters'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Reward tier fields
+ * @param required - Whether name, stampCost and value must be present (creating rather than updating)
+ */
+const rewardTierValidation = (required: boolean): ValidationChain[] => {
+  const requiredIf = (chain: ValidationChain) => required ? chain : chain.optional();
+
+  return [
+    requiredIf(body('name'))
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Reward name must be 1-50 characters'),
+
+    body('description')
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage('Description must be less than 200 characters'),
+
+    requiredIf(body('stampCost'))
+      .isInt({ min: 1, max: 500 })
+      .withMessage('Stamp cost must be between 1 and 500'),
+
+    requiredIf(body('value'))
+      .isFloat({ min: 0, max: 10000 })
+      .withMessage('Reward value must be between $0 and $10000'),
+
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be true or false')
+      .toBoolean(),
+
+    body(['startsAt', 'endsAt'])
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Dates must be ISO 8601'),
+
+    body('stockLimit')
+      .optional({ values: 'null' })
+      .isInt({ min: 1, max: 1000000 })
+      .withMessage('Stock limit must be a positive number')
+  ];
+};
+
+/**
+ * Reward tier creation validation middleware
+ */
+export const rewardTierCreateValidation: (ValidationChain | RequestHandler)[] = [
+  body('programId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Program ID must not be empty'),
+
+  ...rewardTierValidation(true),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Reward tier update validation middleware
+ */
+export const rewardTierUpdateValidation: (ValidationChain | RequestHandler)[] = [
+  ...rewardTierValidation(false),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Reward rules update validation middleware
+ */
+export const rewardRulesValidation: (ValidationChain | RequestHandler)[] = [
+  body('stampsForReward')
+    .optional()
+    .isInt({ min: 5, max: 50 })
+    .withMessage('Stamps for reward must be between 5 and 50'),
+
+  body('rewardType')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Reward type must be 1-50 characters'),
+
+  body('rewardValue')
+    .optional()
+    .isFloat({ min: 0.01, max: 1000 })
+    .withMessage('Reward value must be between $0.01 and $1000'),
+
+  body('voucherExpiryDays')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Voucher expiry must be between 1 and 365 days (or null for never)'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Reward list query validation middleware
+ */
+export const rewardQueryValidation: (ValidationChain | RequestHandler)[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive number')
+    .toInt(),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+
+  query('customerId')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Customer ID must not be empty'),
+
+  query('programId')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Program ID must not be empty'),
+
+  query('status')
+    .optional()
+    .isIn(VOUCHER_STATUSES)
+    .withMessage(`Status must be one of: ${VOUCHER_STATUSES.join(', ')}`),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Voucher issue validation middleware
+ */
+export const voucherIssueValidation: (ValidationChain | RequestHandler)[] = [
+  body('tierId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Reward tier ID must not be empty'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Voucher redemption validation middleware
+ */
+export const voucherRedeemValidation: (ValidationChain | RequestHandler)[] = [
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Voucher code is required')
+    .matches(/^[A-Za-z0-9][A-Za-z0-9 -]{6,14}[A-Za-z0-9]$/)
+    .withMessage('Voucher codes look like "K7QM-3XRP"'),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Loyalty program fields; the stamp rules may be null to fall back to the business's settings
+ * @param required - Whether the name must be present (creating rather than updating)
+ */
+const programValidation = (required: boolean): ValidationChain[] => {
+  const requiredIf = (chain: ValidationChain) => required ? chain : chain.optional();
+
+  return [
+    requiredIf(body('name'))
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Program name must be 1-50 characters'),
+
+    body('description')
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage('Description must be less than 200 characters'),
+
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be true or false'),
+
+    body('stampsPerVisit')
+      .optional({ values: 'null' })
+      .isInt({ min: 1, max: 10 })
+      .withMessage('Stamps per visit must be between 1 and 10'),
+
+    body('maxStampsPerVisit')
+      .optional({ values: 'null' })
+      .isInt({ min: 1, max: 20 })
+      .withMessage('Maximum stamps per visit must be between 1 and 20'),
+
+    body('minSpendForStamp')
+      .optional({ values: 'null' })
+      .isFloat({ min: 0, max: 1000 })
+      .withMessage('Minimum spend must be between $0 and $1000'),
+
+    body('spendPerStamp')
+      .optional({ values: 'null' })
+      .isFloat({ min: 0.01, max: 1000 })
+      .withMessage('Spend per stamp must be between $0.01 and $1000'),
+
+    ...stampBonusRuleValidation
+  ];
+};
+
+/**
+ * Loyalty program creation validation middleware
+ */
+export const programCreateValidation: (ValidationChain | RequestHandler)[] = [
+  ...programValidation(true),
+
+  // Handle validation errors
+  handleValidationErrors
+];
+
+/**
+ * Loyalty program update validation middleware
+ */
+export const programUpdateValidation: (ValidationChain | RequestHandler)[] = [
+  ...programValidation(false),
+
+  // Handle validation errors
+  handleValidationErrors
+];